@@ -0,0 +1,367 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import BackendSelector from "@/components/BackendSelector";
+import DownloadProgress from "@/components/DownloadProgress";
+import GenerationSettings from "@/components/GenerationSettings";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import {
+  batchInput,
+  completedResult,
+  parseBatchFile,
+  pendingResult,
+  resultsToCsv,
+  resultsToJsonl,
+  rowParams,
+  type BatchResult,
+  type BatchRow,
+} from "@/lib/batch";
+import { downloadFile } from "@/lib/download";
+import { useBackendChoice } from "@/lib/inference/backend";
+import { getInferenceClient } from "@/lib/inference/client";
+import { describeError, getErrorMessage } from "@/lib/inference/errors";
+import { useInference } from "@/lib/inference/useInference";
+import { getModel, MODELS, type ModelConfig } from "@/lib/models";
+import { useGenerationParams } from "@/lib/params";
+
+const cellStyle = { padding: "4px 8px", verticalAlign: "top" };
+
+function ms(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)} ms`;
+}
+
+/**
+ * Runs `rows` one after another on `model`. Pausing stops the current row
+ * (it goes back to the queue) and resuming picks up the first pending row;
+ * a failed row records its error and the queue moves on.
+ */
+function BatchRunner({
+  model,
+  rows,
+}: {
+  model: ModelConfig;
+  rows: BatchRow[];
+}) {
+  const { backend, setBackend, dtypes, resolved } = useBackendChoice(model);
+  const inference = useInference(model, resolved ? backend : null);
+  const { params, setParams, resetParams } = useGenerationParams(model);
+
+  const [results, setResults] = useState(() => rows.map(pendingResult));
+  const [running, setRunning] = useState(false);
+  // Read by the run loop, which outlives the render that started it
+  const resultsRef = useRef(results);
+  const pausedRef = useRef(false);
+  const requestIdRef = useRef<number | null>(null);
+
+  // Switching model or file, or leaving the page, stops the queue
+  useEffect(() => {
+    const paused = pausedRef;
+    const requestId = requestIdRef;
+    return () => {
+      paused.current = true;
+      if (requestId.current !== null) {
+        getInferenceClient().cancel(requestId.current);
+      }
+    };
+  }, []);
+
+  function update(index: number, result: BatchResult): void {
+    resultsRef.current = resultsRef.current.map((r, i) =>
+      i === index ? result : r
+    );
+    setResults(resultsRef.current);
+  }
+
+  async function runPending(): Promise<void> {
+    const spec = inference.spec;
+    if (!spec) return;
+    const client = getInferenceClient();
+    pausedRef.current = false;
+    setRunning(true);
+    try {
+      for (let i = 0; i < rows.length; i++) {
+        if (pausedRef.current) break;
+        if (resultsRef.current[i].status !== "pending") continue;
+        const row = rows[i];
+        update(i, { ...pendingResult(row), status: "running" });
+        try {
+          const handle = client.generate(
+            spec,
+            batchInput(model, row),
+            rowParams(params, row)
+          );
+          requestIdRef.current = handle.requestId;
+          const result = await handle.result;
+          update(
+            i,
+            result.cancelled
+              ? pendingResult(row)
+              : completedResult(model, row, result)
+          );
+        } catch (err: unknown) {
+          update(i, {
+            ...pendingResult(row),
+            status: "error",
+            error: getErrorMessage(err),
+          });
+        } finally {
+          requestIdRef.current = null;
+        }
+      }
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function onPause(): void {
+    pausedRef.current = true;
+    if (requestIdRef.current !== null) {
+      getInferenceClient().cancel(requestIdRef.current);
+    }
+  }
+
+  function onRetryFailed(): void {
+    resultsRef.current = resultsRef.current.map((r) =>
+      r.status === "error" ? pendingResult(r) : r
+    );
+    setResults(resultsRef.current);
+    void runPending();
+  }
+
+  const done = results.filter((r) => r.status === "done").length;
+  const failed = results.filter((r) => r.status === "error").length;
+  const pending = results.filter((r) => r.status === "pending").length;
+  const invalid = rows.filter((r) => r.problem).length;
+  const started = pending < results.length - invalid;
+  const busy = !inference.spec || running;
+
+  function onExport(extension: "csv" | "jsonl"): void {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filename = `batch-${model.slug}-${stamp}.${extension}`;
+    if (extension === "csv") {
+      downloadFile(filename, resultsToCsv(results), "text/csv");
+    } else {
+      downloadFile(
+        filename,
+        resultsToJsonl(results, params),
+        "application/x-ndjson"
+      );
+    }
+  }
+
+  return (
+    <>
+      <BackendSelector
+        backend={backend}
+        dtypes={dtypes}
+        onChange={setBackend}
+        disabled={!resolved || running}
+      />
+
+      <div style={{ ...boxStyle, whiteSpace: "pre-wrap" }}>
+        <strong>Status:</strong> {inference.status}
+        {inference.notice && (
+          <div style={{ marginTop: 8, fontSize: 14, color: "#b60" }}>
+            {inference.notice}
+          </div>
+        )}
+        {inference.isLoading && (
+          <DownloadProgress downloads={inference.downloads} />
+        )}
+      </div>
+
+      <GenerationSettings
+        params={params}
+        onChange={setParams}
+        onReset={resetParams}
+        disabled={running}
+        model={model}
+      />
+
+      <button
+        onClick={() => void runPending()}
+        disabled={busy || pending === 0}
+        style={buttonStyle(busy || pending === 0)}
+      >
+        {running ? "Running..." : started ? "Resume" : "Run batch"}
+      </button>
+      {running && (
+        <button onClick={onPause} style={buttonStyle()}>
+          Pause
+        </button>
+      )}
+      <button
+        onClick={onRetryFailed}
+        disabled={busy || failed === 0}
+        style={buttonStyle(busy || failed === 0)}
+      >
+        Retry failed
+      </button>
+      <button
+        onClick={() => onExport("csv")}
+        disabled={done + failed === 0}
+        style={buttonStyle(done + failed === 0)}
+      >
+        Export CSV
+      </button>
+      <button
+        onClick={() => onExport("jsonl")}
+        disabled={done + failed === 0}
+        style={buttonStyle(done + failed === 0)}
+      >
+        Export JSONL
+      </button>
+
+      <div style={{ marginBottom: 16, fontSize: 14 }}>
+        <progress
+          value={done + failed}
+          max={results.length}
+          style={{ width: "100%" }}
+        />
+        {done} of {results.length} done
+        {failed > 0 && `, ${failed} failed`}
+        {!running && started && pending > 0 && ` · paused, ${pending} to go`}
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th style={cellStyle}>Id</th>
+            <th style={cellStyle}>Prompt</th>
+            <th style={cellStyle}>Output</th>
+            <th style={cellStyle}>Tokens</th>
+            <th style={cellStyle}>First token</th>
+            <th style={cellStyle}>Total</th>
+            <th style={cellStyle}>Tok/s</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r, i) => (
+            <tr key={i} style={{ borderTop: "1px solid #ddd" }}>
+              <td style={cellStyle}>{r.id}</td>
+              <td style={{ ...cellStyle, whiteSpace: "pre-wrap" }}>
+                {r.prompt}
+                {Object.keys(r.params).length > 0 && (
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>
+                    {JSON.stringify(r.params)}
+                  </div>
+                )}
+              </td>
+              <td style={{ ...cellStyle, whiteSpace: "pre-wrap" }}>
+                {r.status === "error" ? (
+                  <span style={{ color: "#c33" }}>
+                    {describeError(r.error)}
+                  </span>
+                ) : r.status === "done" ? (
+                  r.output
+                ) : (
+                  <span style={{ opacity: 0.6 }}>{r.status}</span>
+                )}
+              </td>
+              <td style={cellStyle}>{r.status === "done" ? r.tokens : ""}</td>
+              <td style={cellStyle}>
+                {r.status === "done" ? ms(r.timeToFirstTokenMs) : ""}
+              </td>
+              <td style={cellStyle}>
+                {r.status === "done" ? ms(r.durationMs) : ""}
+              </td>
+              <td style={cellStyle}>
+                {r.status === "done" ? r.tokensPerSecond.toFixed(1) : ""}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+export default function Page() {
+  const [slug, setSlug] = useState(MODELS[0].slug);
+  // `key` starts a fresh queue each time a file is picked
+  const [file, setFile] = useState<{
+    name: string;
+    rows: BatchRow[];
+    key: number;
+  } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const model = getModel(slug) as ModelConfig;
+
+  async function onFile(picked: File | undefined): Promise<void> {
+    if (!picked) return;
+    try {
+      const rows = parseBatchFile(picked.name, await picked.text());
+      setFile({ name: picked.name, rows, key: Date.now() });
+      const invalid = rows.filter((r) => r.problem).length;
+      setStatus(
+        `Loaded ${rows.length} prompt(s) from ${picked.name}` +
+          (invalid > 0
+            ? `; ${invalid} with invalid parameters won't run.`
+            : ".")
+      );
+    } catch (err: unknown) {
+      setStatus(`Could not read ${picked.name}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  return (
+    <main
+      style={{
+        maxWidth: 1000,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Batch runs</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        Runs every prompt in a CSV (with a <code>prompt</code> column) or JSONL
+        file (one <code>{'{"prompt": ...}'}</code> object per line) through
+        one model. Optional <code>id</code> and <code>system</code> fields and
+        parameter fields such as <code>temperature</code> or{" "}
+        <code>max_new_tokens</code> apply to their row only.
+      </p>
+
+      <div style={boxStyle}>
+        <label style={{ display: "block", marginBottom: 8 }}>
+          Model{" "}
+          <select
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            style={{ ...fieldStyle, width: "auto" }}
+          >
+            {MODELS.map((m) => (
+              <option key={m.slug} value={m.slug}>
+                {m.name} ({m.mode})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Prompts file{" "}
+          <input
+            type="file"
+            accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+            onChange={(e) => {
+              void onFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {status && <div style={{ marginTop: 8, fontSize: 14 }}>{status}</div>}
+      </div>
+
+      {file && (
+        <BatchRunner
+          key={`${slug}|${file.key}`}
+          model={model}
+          rows={file.rows}
+        />
+      )}
+    </main>
+  );
+}
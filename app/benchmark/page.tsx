@@ -0,0 +1,452 @@
+"use client";
+
+import Link from "next/link";
+import { useRef, useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import {
+  diffReports,
+  formatDelta,
+  parseReport,
+  reportToCsv,
+  summarize,
+  type BenchReport,
+  type BenchRun,
+  type BenchSuite,
+  type BenchTarget,
+} from "@/lib/benchmark";
+import { promptInput } from "@/lib/chat";
+import { downloadFile } from "@/lib/download";
+import { getInferenceClient } from "@/lib/inference/client";
+import { getErrorMessage } from "@/lib/inference/errors";
+import { formatBytes } from "@/lib/inference/progress";
+import { toModelSpec } from "@/lib/inference/protocol";
+import {
+  getModel,
+  MODELS,
+  type ModelConfig,
+  type ModelDevice,
+  type ModelDtype,
+} from "@/lib/models";
+import { PRESETS } from "@/lib/params";
+
+const DEFAULT_PROMPTS = [
+  "Once upon a time,",
+  "Explain in one paragraph why the sky is blue.",
+];
+
+function ms(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)} ms`;
+}
+
+const cellStyle = { padding: "4px 8px" };
+
+export default function Page() {
+  const [targets, setTargets] = useState<BenchTarget[]>([
+    { slug: MODELS[0].slug, device: MODELS[0].device, dtype: MODELS[0].dtype },
+  ]);
+  const [promptsText, setPromptsText] = useState(DEFAULT_PROMPTS.join("\n"));
+  const [repetitions, setRepetitions] = useState(3);
+  const [seed, setSeed] = useState(42);
+  const [maxNewTokens, setMaxNewTokens] = useState(32);
+  const [report, setReport] = useState<BenchReport | null>(null);
+  const [baseline, setBaseline] = useState<BenchReport | null>(null);
+  const [status, setStatus] = useState("Idle.");
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef(false);
+
+  function updateTarget(i: number, patch: Partial<BenchTarget>): void {
+    setTargets((ts) => ts.map((t, j) => (j === i ? { ...t, ...patch } : t)));
+  }
+
+  function onModelChange(i: number, slug: string): void {
+    const m = getModel(slug) as ModelConfig;
+    updateTarget(i, { slug, device: m.device, dtype: m.dtype });
+  }
+
+  async function runTarget(
+    target: BenchTarget,
+    suite: BenchSuite,
+    runs: BenchRun[]
+  ): Promise<void> {
+    const client = getInferenceClient();
+    const model = getModel(target.slug) as ModelConfig;
+    const spec = toModelSpec(model, target);
+
+    // Start cold so load time covers session creation every time
+    await client.dispose(spec);
+    const loadStarted = performance.now();
+    let loadMs = 0;
+    let loadError: string | null = null;
+    try {
+      await client.load(spec);
+      loadMs = performance.now() - loadStarted;
+    } catch (err: unknown) {
+      loadError = getErrorMessage(err);
+    }
+
+    for (let p = 0; p < suite.prompts.length; p++) {
+      for (let r = 0; r < suite.repetitions; r++) {
+        if (abortRef.current) return;
+        setStatus(
+          `${model.name} (${target.device}/${target.dtype}): prompt ${p + 1}/${suite.prompts.length}, run ${r + 1}/${suite.repetitions}`
+        );
+        const base = {
+          ...target,
+          promptIndex: p,
+          repetition: r,
+          loadMs,
+        };
+        if (loadError) {
+          runs.push({
+            ...base,
+            timeToFirstTokenMs: null,
+            tokensPerSecond: 0,
+            durationMs: 0,
+            tokens: 0,
+            outputChars: 0,
+            peakHeapBytes: null,
+            error: loadError,
+          });
+          continue;
+        }
+        try {
+          const { text, stats } = await client.generate(
+            spec,
+            promptInput(model, suite.prompts[p]),
+            {
+              ...PRESETS.balanced,
+              do_sample: true,
+              max_new_tokens: suite.max_new_tokens,
+              seed: suite.seed,
+            }
+          ).result;
+          runs.push({
+            ...base,
+            timeToFirstTokenMs: stats.timeToFirstTokenMs,
+            tokensPerSecond: stats.tokensPerSecond,
+            durationMs: stats.durationMs,
+            tokens: stats.tokens,
+            outputChars: text.length,
+            peakHeapBytes: stats.peakHeapBytes,
+            error: null,
+          });
+        } catch (err: unknown) {
+          runs.push({
+            ...base,
+            timeToFirstTokenMs: null,
+            tokensPerSecond: 0,
+            durationMs: 0,
+            tokens: 0,
+            outputChars: 0,
+            peakHeapBytes: null,
+            error: getErrorMessage(err),
+          });
+        }
+      }
+    }
+
+    await client.dispose(spec);
+  }
+
+  async function onRun(): Promise<void> {
+    const suite: BenchSuite = {
+      prompts: promptsText.split("\n").filter((p) => p.trim() !== ""),
+      repetitions,
+      seed,
+      max_new_tokens: maxNewTokens,
+    };
+    if (suite.prompts.length === 0 || targets.length === 0) return;
+
+    abortRef.current = false;
+    setRunning(true);
+    const runs: BenchRun[] = [];
+    try {
+      for (const target of targets) {
+        if (abortRef.current) break;
+        await runTarget(target, suite, runs);
+      }
+      setReport({
+        version: 1,
+        createdAt: new Date().toISOString(),
+        userAgent: navigator.userAgent,
+        suite,
+        runs,
+      });
+      setStatus(
+        abortRef.current
+          ? `Stopped after ${runs.length} run(s).`
+          : `Done: ${runs.length} run(s).`
+      );
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function onImport(file: File | undefined): Promise<void> {
+    if (!file) return;
+    try {
+      setBaseline(parseReport(await file.text()));
+      setStatus(`Imported baseline ${file.name}.`);
+    } catch (err: unknown) {
+      setStatus(`Import failed: ${getErrorMessage(err)}`);
+    }
+  }
+
+  const stamp = report?.createdAt.replace(/[:.]/g, "-") ?? "";
+  const rows = report
+    ? baseline
+      ? diffReports(report, baseline)
+      : summarize(report).map((current) => ({ current, previous: null }))
+    : [];
+
+  return (
+    <main
+      style={{
+        maxWidth: 1000,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Benchmark</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        Runs every prompt N times per target with a fixed seed, after a cold
+        load, and reports load time, time to first token, tokens/sec and
+        worker heap (Chromium only).
+      </p>
+
+      <div style={boxStyle}>
+        <strong>Targets</strong>
+        {targets.map((t, i) => {
+          const m = getModel(t.slug) as ModelConfig;
+          return (
+            <div key={i} style={{ marginTop: 8 }}>
+              <select
+                value={t.slug}
+                onChange={(e) => onModelChange(i, e.target.value)}
+                disabled={running}
+              >
+                {MODELS.map((mm) => (
+                  <option key={mm.slug} value={mm.slug}>
+                    {mm.name}
+                  </option>
+                ))}
+              </select>{" "}
+              <select
+                value={t.device}
+                onChange={(e) =>
+                  updateTarget(i, { device: e.target.value as ModelDevice })
+                }
+                disabled={running}
+              >
+                <option value="wasm">wasm</option>
+                <option value="webgpu">webgpu</option>
+              </select>{" "}
+              <select
+                value={t.dtype}
+                onChange={(e) =>
+                  updateTarget(i, { dtype: e.target.value as ModelDtype })
+                }
+                disabled={running}
+              >
+                {m.dtypes.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>{" "}
+              <button
+                onClick={() => setTargets((ts) => ts.filter((_, j) => j !== i))}
+                disabled={running || targets.length === 1}
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+        <button
+          onClick={() => setTargets((ts) => [...ts, ts[ts.length - 1]])}
+          disabled={running}
+          style={{ ...buttonStyle(running), marginTop: 8 }}
+        >
+          Add target
+        </button>
+      </div>
+
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Prompts (one per line)
+        <textarea
+          value={promptsText}
+          onChange={(e) => setPromptsText(e.target.value)}
+          rows={4}
+          style={fieldStyle}
+          disabled={running}
+        />
+      </label>
+
+      <div style={{ display: "flex", gap: 16, marginBottom: 16 }}>
+        <label>
+          Repetitions{" "}
+          <input
+            type="number"
+            min={1}
+            value={repetitions}
+            onChange={(e) => setRepetitions(Math.max(1, Number(e.target.value)))}
+            disabled={running}
+            style={{ width: 60 }}
+          />
+        </label>
+        <label>
+          Seed{" "}
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Number(e.target.value))}
+            disabled={running}
+            style={{ width: 80 }}
+          />
+        </label>
+        <label>
+          Max new tokens{" "}
+          <input
+            type="number"
+            min={1}
+            value={maxNewTokens}
+            onChange={(e) =>
+              setMaxNewTokens(Math.max(1, Number(e.target.value)))
+            }
+            disabled={running}
+            style={{ width: 60 }}
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={() => void onRun()}
+        disabled={running}
+        style={buttonStyle(running)}
+      >
+        {running ? "Running..." : "Run benchmark"}
+      </button>
+      {running && (
+        <button
+          onClick={() => {
+            abortRef.current = true;
+          }}
+          style={buttonStyle()}
+        >
+          Stop after current run
+        </button>
+      )}
+
+      <div style={boxStyle}>
+        <strong>Status:</strong> {status}
+      </div>
+
+      <div style={{ marginBottom: 16 }}>
+        <button
+          onClick={() =>
+            report &&
+            downloadFile(
+              `benchmark-${stamp}.json`,
+              JSON.stringify(report, null, 2),
+              "application/json"
+            )
+          }
+          disabled={!report}
+          style={buttonStyle(!report)}
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() =>
+            report &&
+            downloadFile(
+              `benchmark-${stamp}.csv`,
+              reportToCsv(report),
+              "text/csv"
+            )
+          }
+          disabled={!report}
+          style={buttonStyle(!report)}
+        >
+          Export CSV
+        </button>
+        <label style={{ fontSize: 14 }}>
+          Compare with a previous report:{" "}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => void onImport(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+
+      {rows.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={cellStyle}>Target</th>
+              <th style={cellStyle}>Runs</th>
+              <th style={cellStyle}>Load</th>
+              <th style={cellStyle}>First token</th>
+              <th style={cellStyle}>Tok/s</th>
+              <th style={cellStyle}>Tokens</th>
+              <th style={cellStyle}>Output chars</th>
+              <th style={cellStyle}>Peak heap</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ current: c, previous: p }) => (
+              <tr
+                key={`${c.slug}|${c.device}|${c.dtype}`}
+                style={{ borderTop: "1px solid #ddd" }}
+              >
+                <td style={cellStyle}>
+                  {c.slug}
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>
+                    {c.device} · {c.dtype}
+                  </div>
+                </td>
+                <td style={cellStyle}>
+                  {c.runs}
+                  {c.errors > 0 && ` (${c.errors} failed)`}
+                </td>
+                <td style={cellStyle}>
+                  {ms(c.loadMs)} {formatDelta(c.loadMs, p?.loadMs ?? null)}
+                </td>
+                <td style={cellStyle}>
+                  {ms(c.timeToFirstTokenMs)}{" "}
+                  {formatDelta(
+                    c.timeToFirstTokenMs,
+                    p?.timeToFirstTokenMs ?? null
+                  )}
+                </td>
+                <td style={cellStyle}>
+                  {c.tokensPerSecond.toFixed(1)}{" "}
+                  {formatDelta(c.tokensPerSecond, p?.tokensPerSecond ?? null)}
+                </td>
+                <td style={cellStyle}>{c.tokens.toFixed(0)}</td>
+                <td style={cellStyle}>{c.outputChars.toFixed(0)}</td>
+                <td style={cellStyle}>
+                  {c.peakHeapBytes === null
+                    ? "n/a"
+                    : formatBytes(c.peakHeapBytes)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {baseline && (
+        <p style={{ fontSize: 14, opacity: 0.8 }}>
+          Deltas are relative to the baseline from {baseline.createdAt}.
+          Targets missing from the baseline show no delta.
+        </p>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import DownloadProgress from "@/components/DownloadProgress";
+import ModelSourcePanel from "@/components/ModelSourcePanel";
+import { boxStyle, buttonStyle } from "@/components/styles";
+import {
+  deleteCachedModel,
+  getStorageUsage,
+  listCachedModels,
+  type CachedModel,
+  type StorageUsage,
+} from "@/lib/cache";
+import { getInferenceClient } from "@/lib/inference/client";
+import { describeError, getErrorMessage } from "@/lib/inference/errors";
+import {
+  applyProgress,
+  formatBytes,
+  type DownloadState,
+} from "@/lib/inference/progress";
+import { toModelSpec } from "@/lib/inference/protocol";
+import { formatDownloadSize, MODELS, type ModelConfig } from "@/lib/models";
+import { pinModel, unpinModel, usePins } from "@/lib/pins";
+import { loadModelSource } from "@/lib/sources";
+
+export default function Page() {
+  const [cached, setCached] = useState<CachedModel[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [status, setStatus] = useState("Reading cache...");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [downloads, setDownloads] = useState<DownloadState>({});
+  const { pins, persisted } = usePins();
+
+  const refresh = useCallback(async () => {
+    try {
+      const [models, estimate] = await Promise.all([
+        listCachedModels(loadModelSource().localPath),
+        getStorageUsage(),
+      ]);
+      setCached(models);
+      setUsage(estimate);
+      setStatus(
+        models.length === 0 ? "No models cached yet." : "Cache up to date."
+      );
+    } catch (err: unknown) {
+      setStatus(`Could not read the cache: ${getErrorMessage(err)}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  async function onDelete(id: string): Promise<void> {
+    setBusy(id);
+    try {
+      const n = await deleteCachedModel(id, loadModelSource().localPath);
+      setStatus(`Deleted ${n} file(s) of ${id}.`);
+    } catch (err: unknown) {
+      setStatus(`Delete failed: ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(null);
+      await refresh();
+    }
+  }
+
+  /** Loads once through the worker (which fills the cache), then frees it. */
+  async function onPreDownload(model: ModelConfig): Promise<void> {
+    const client = getInferenceClient();
+    const spec = toModelSpec(model);
+    setBusy(model.id);
+    setDownloads({});
+    setStatus(`Downloading ${model.name}...`);
+    try {
+      await client.load(spec, (p) =>
+        setDownloads((prev) => applyProgress(prev, p))
+      );
+      await client.dispose(spec);
+      setStatus(`${model.name} is cached and available offline.`);
+    } catch (err: unknown) {
+      setStatus(`Download failed: ${describeError(err)}`);
+    } finally {
+      setBusy(null);
+      await refresh();
+    }
+  }
+
+  /** Downloads at the dtype the model page uses and keeps it offline. */
+  async function onPin(model: ModelConfig): Promise<void> {
+    setBusy(model.id);
+    setDownloads({});
+    setStatus(`Downloading ${model.name} for offline use...`);
+    try {
+      const { spec } = await pinModel(model, (p) =>
+        setDownloads((prev) => applyProgress(prev, p))
+      );
+      setStatus(
+        `${model.name} (${spec.dtype} on ${spec.device}) is pinned for ` +
+          "offline use."
+      );
+    } catch (err: unknown) {
+      setStatus(`Download failed: ${describeError(err)}`);
+    } finally {
+      setBusy(null);
+      await refresh();
+    }
+  }
+
+  const registeredIds = new Set(MODELS.map((m) => m.id));
+  const others = cached.filter((c) => !registeredIds.has(c.id));
+
+  return (
+    <main
+      style={{
+        maxWidth: 900,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Model cache</h1>
+
+      <div style={boxStyle}>
+        <strong>Status:</strong> {status}
+        {busy && <DownloadProgress downloads={downloads} />}
+        {usage && (
+          <div style={{ marginTop: 8, fontSize: 14 }}>
+            Storage: {formatBytes(usage.usage)} used of{" "}
+            {formatBytes(usage.quota)}
+            {persisted !== null &&
+              (persisted
+                ? " · persistent"
+                : " · may be evicted under storage pressure")}
+            <progress
+              value={usage.usage}
+              max={usage.quota || 1}
+              style={{ width: "100%", height: 10 }}
+            />
+          </div>
+        )}
+      </div>
+
+      <ModelSourcePanel onSaved={() => void refresh()} />
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th>Model</th>
+            <th>Expected</th>
+            <th>Cached</th>
+            <th>Offline</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {MODELS.map((m) => {
+            const entry = cached.find((c) => c.id === m.id);
+            const pin = pins.find((p) => p.spec.id === m.id);
+            return (
+              <tr key={m.slug} style={{ borderTop: "1px solid #ddd" }}>
+                <td>
+                  {m.name}
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>
+                    <code>{m.id}</code> · {m.device} · {m.dtype}
+                  </div>
+                </td>
+                <td>{formatDownloadSize(m.size.downloadMB)}</td>
+                <td>
+                  {entry
+                    ? `${formatBytes(entry.bytes)} (${entry.files.length} files)`
+                    : "—"}
+                </td>
+                <td>{pin ? `pinned (${pin.spec.dtype})` : "—"}</td>
+                <td style={{ textAlign: "right", paddingTop: 16 }}>
+                  {pin ? (
+                    <button
+                      onClick={() => unpinModel(m.id)}
+                      disabled={busy !== null}
+                      style={buttonStyle(busy !== null)}
+                    >
+                      Unpin
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => void onPin(m)}
+                      disabled={busy !== null}
+                      style={buttonStyle(busy !== null)}
+                    >
+                      Pin offline
+                    </button>
+                  )}
+                  <button
+                    onClick={() => void onPreDownload(m)}
+                    disabled={busy !== null}
+                    style={buttonStyle(busy !== null)}
+                  >
+                    {busy === m.id ? "Downloading..." : "Pre-download"}
+                  </button>
+                  <button
+                    onClick={() => void onDelete(m.id)}
+                    disabled={busy !== null || !entry || !!pin}
+                    style={buttonStyle(busy !== null || !entry || !!pin)}
+                    title={pin ? "Unpin before deleting" : undefined}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+          {others.map((c) => (
+            <tr key={c.id} style={{ borderTop: "1px solid #ddd" }}>
+              <td>
+                <code>{c.id}</code>
+                <div style={{ fontSize: 12, opacity: 0.7 }}>
+                  not in the registry
+                </div>
+              </td>
+              <td>—</td>
+              <td>
+                {formatBytes(c.bytes)} ({c.files.length} files)
+              </td>
+              <td>—</td>
+              <td style={{ textAlign: "right", paddingTop: 16 }}>
+                <button
+                  onClick={() => void onDelete(c.id)}
+                  disabled={busy !== null}
+                  style={buttonStyle(busy !== null)}
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </main>
+  );
+}
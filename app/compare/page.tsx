@@ -0,0 +1,388 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { GenerationStatsLine } from "@/components/GenerationOutput";
+import GenerationSettings from "@/components/GenerationSettings";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import {
+  clearTally,
+  loadTally,
+  recordRating,
+  recordVote,
+  type Tally,
+} from "@/lib/arena";
+import { promptInput } from "@/lib/chat";
+import { loadWithFallback } from "@/lib/inference/backend";
+import { getInferenceClient } from "@/lib/inference/client";
+import { describeError } from "@/lib/inference/errors";
+import {
+  toModelSpec,
+  type GenerationStats,
+  type ModelSpec,
+} from "@/lib/inference/protocol";
+import {
+  formatDownloadSize,
+  MODELS,
+  type GenerationParams,
+  type ModelConfig,
+} from "@/lib/models";
+import { PRESETS } from "@/lib/params";
+
+/** Models are only run side by side while their combined size fits here. */
+const PARALLEL_BUDGET_MB = 1500;
+
+const DEFAULT_PARAMS: GenerationParams = {
+  max_new_tokens: 64,
+  ...PRESETS.balanced,
+  do_sample: true,
+};
+
+type Column = {
+  slug: string;
+  phase: "queued" | "loading" | "generating" | "done" | "error";
+  output: string;
+  stats: GenerationStats | null;
+  loadMs: number | null;
+  notice: string | null;
+  error: string | null;
+  stopped: boolean;
+  rating: number | null;
+};
+
+function newColumn(slug: string): Column {
+  return {
+    slug,
+    phase: "queued",
+    output: "",
+    stats: null,
+    loadMs: null,
+    notice: null,
+    error: null,
+    stopped: false,
+    rating: null,
+  };
+}
+
+export default function Page() {
+  const [prompt, setPrompt] = useState("Once upon a time,");
+  const [selected, setSelected] = useState<string[]>(
+    MODELS.slice(0, 2).map((m) => m.slug)
+  );
+  const [params, setParams] = useState<GenerationParams>(DEFAULT_PARAMS);
+  const [parallel, setParallel] = useState(false);
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [running, setRunning] = useState(false);
+  const [winner, setWinner] = useState<string | null>(null);
+  const [tally, setTally] = useState<Tally>({});
+  const requestIds = useRef(new Set<number>());
+
+  useEffect(() => {
+    setTally(loadTally());
+  }, []);
+
+  const models = MODELS.filter((m) => selected.includes(m.slug));
+  const totalMB = models.reduce((sum, m) => sum + m.size.downloadMB, 0);
+  const parallelAllowed = totalMB <= PARALLEL_BUDGET_MB;
+
+  function update(slug: string, patch: Partial<Column>): void {
+    setColumns((cols) =>
+      cols.map((c) => (c.slug === slug ? { ...c, ...patch } : c))
+    );
+  }
+
+  async function runOne(model: ModelConfig): Promise<void> {
+    const client = getInferenceClient();
+    let spec: ModelSpec | null = null;
+    const attempted: ModelSpec[] = [];
+
+    try {
+      update(model.slug, { phase: "loading" });
+      const started = performance.now();
+      const outcome = await loadWithFallback(
+        client,
+        model,
+        toModelSpec(model),
+        () => {},
+        (s) => attempted.push(s)
+      );
+      spec = outcome.spec;
+      update(model.slug, {
+        phase: "generating",
+        loadMs: performance.now() - started,
+        notice: outcome.notice,
+      });
+
+      const handle = client.generate(
+        spec,
+        promptInput(model, prompt),
+        params,
+        (text, stats) =>
+          setColumns((cols) =>
+            cols.map((c) =>
+              c.slug === model.slug
+                ? { ...c, output: c.output + text, stats }
+                : c
+            )
+          )
+      );
+      requestIds.current.add(handle.requestId);
+      try {
+        const result = await handle.result;
+        update(model.slug, {
+          phase: "done",
+          output: result.text,
+          stats: result.stats,
+          stopped: result.cancelled,
+        });
+      } finally {
+        requestIds.current.delete(handle.requestId);
+      }
+    } catch (err: unknown) {
+      update(model.slug, { phase: "error", error: describeError(err) });
+    } finally {
+      // Free memory for the next contestant
+      for (const s of attempted) await client.dispose(s);
+    }
+  }
+
+  async function onRun(): Promise<void> {
+    if (models.length < 2) return;
+    setRunning(true);
+    setWinner(null);
+    setColumns(models.map((m) => newColumn(m.slug)));
+
+    try {
+      if (parallel && parallelAllowed) {
+        await Promise.all(models.map((m) => runOne(m)));
+      } else {
+        for (const m of models) await runOne(m);
+      }
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function onStop(): void {
+    const client = getInferenceClient();
+    for (const id of requestIds.current) client.cancel(id);
+  }
+
+  function onVote(slug: string): void {
+    if (winner) return;
+    setWinner(slug);
+    setTally((t) =>
+      recordVote(
+        t,
+        columns.filter((c) => c.phase === "done").map((c) => c.slug),
+        slug
+      )
+    );
+  }
+
+  function onRate(slug: string, rating: number): void {
+    update(slug, { rating });
+    setTally((t) => recordRating(t, slug, rating));
+  }
+
+  function toggle(slug: string): void {
+    setSelected((prev) =>
+      prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]
+    );
+  }
+
+  const roundDone = !running && columns.some((c) => c.phase === "done");
+
+  return (
+    <main
+      style={{
+        maxWidth: 1200,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Compare models</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        One prompt, identical sampling settings, every selected model. Chat
+        models receive the prompt as a single user message.
+      </p>
+
+      <div style={boxStyle}>
+        {MODELS.map((m) => (
+          <label key={m.slug} style={{ marginRight: 16 }}>
+            <input
+              type="checkbox"
+              checked={selected.includes(m.slug)}
+              onChange={() => toggle(m.slug)}
+              disabled={running}
+            />{" "}
+            {m.name}{" "}
+            <span style={{ opacity: 0.6, fontSize: 12 }}>
+              ({formatDownloadSize(m.size.downloadMB)})
+            </span>
+          </label>
+        ))}
+        <div style={{ marginTop: 8, fontSize: 14 }}>
+          <label style={{ opacity: parallelAllowed ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={parallel && parallelAllowed}
+              onChange={(e) => setParallel(e.target.checked)}
+              disabled={running || !parallelAllowed}
+            />{" "}
+            Load in parallel
+          </label>{" "}
+          {!parallelAllowed && (
+            <span style={{ opacity: 0.7 }}>
+              (selection needs {formatDownloadSize(totalMB)}; over the{" "}
+              {formatDownloadSize(PARALLEL_BUDGET_MB)} parallel budget, so
+              models run one at a time)
+            </span>
+          )}
+        </div>
+      </div>
+
+      <GenerationSettings
+        params={params}
+        onChange={setParams}
+        onReset={() => setParams(DEFAULT_PARAMS)}
+        disabled={running}
+      />
+
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Prompt
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={4}
+          style={fieldStyle}
+          disabled={running}
+        />
+      </label>
+
+      <button
+        onClick={() => void onRun()}
+        disabled={running || models.length < 2}
+        style={buttonStyle(running || models.length < 2)}
+      >
+        {running ? "Running..." : "Run comparison"}
+      </button>
+      {running && (
+        <button onClick={onStop} style={buttonStyle()}>
+          Stop
+        </button>
+      )}
+      {models.length < 2 && (
+        <span style={{ opacity: 0.7 }}>Pick at least two models.</span>
+      )}
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${Math.max(columns.length, 1)}, 1fr)`,
+          gap: 12,
+        }}
+      >
+        {columns.map((c) => {
+          const model = MODELS.find((m) => m.slug === c.slug);
+          return (
+            <div
+              key={c.slug}
+              style={{
+                ...boxStyle,
+                borderColor: winner === c.slug ? "#2a2" : "#ddd",
+              }}
+            >
+              <strong>{model?.name ?? c.slug}</strong>
+              <div style={{ fontSize: 12, opacity: 0.7 }}>
+                {c.phase}
+                {c.loadMs !== null &&
+                  ` · loaded in ${(c.loadMs / 1000).toFixed(1)} s`}
+              </div>
+              {c.notice && (
+                <div style={{ fontSize: 12, color: "#b60" }}>{c.notice}</div>
+              )}
+              <pre
+                style={{
+                  minHeight: 120,
+                  whiteSpace: "pre-wrap",
+                  wordBreak: "break-word",
+                  fontFamily: "inherit",
+                }}
+              >
+                {c.error ? `Error: ${c.error}` : c.output || "—"}
+              </pre>
+              <GenerationStatsLine stats={c.stats} stopped={c.stopped} />
+
+              {roundDone && c.phase === "done" && (
+                <div style={{ marginTop: 8 }}>
+                  {[1, 2, 3, 4, 5].map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => onRate(c.slug, n)}
+                      disabled={c.rating !== null}
+                      title={`Rate ${n}/5`}
+                      style={{
+                        border: "none",
+                        background: "none",
+                        cursor: c.rating === null ? "pointer" : "default",
+                        fontSize: 18,
+                        padding: 0,
+                      }}
+                    >
+                      {c.rating !== null && n <= c.rating ? "★" : "☆"}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => onVote(c.slug)}
+                    disabled={winner !== null}
+                    style={{ ...buttonStyle(winner !== null), marginLeft: 8 }}
+                  >
+                    {winner === c.slug ? "Voted best" : "Best"}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <h2 style={{ fontSize: 20, marginTop: 24 }}>Tally</h2>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th>Model</th>
+            <th>Wins / rounds</th>
+            <th>Avg rating</th>
+          </tr>
+        </thead>
+        <tbody>
+          {MODELS.map((m) => {
+            const t = tally[m.slug];
+            return (
+              <tr key={m.slug} style={{ borderTop: "1px solid #ddd" }}>
+                <td>{m.name}</td>
+                <td>{t ? `${t.wins} / ${t.rounds}` : "—"}</td>
+                <td>
+                  {t && t.ratingCount > 0
+                    ? `${(t.ratingSum / t.ratingCount).toFixed(2)} (${t.ratingCount})`
+                    : "—"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button
+        onClick={() => setTally(clearTally())}
+        style={{ ...buttonStyle(), marginTop: 12 }}
+      >
+        Reset tally
+      </button>
+    </main>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect } from "react";
+import ChatPanel from "@/components/ChatPanel";
+import CompletionPanel from "@/components/CompletionPanel";
+import { allowedOrigins, serveEmbedApi } from "@/lib/embed/frame";
+import { useInference } from "@/lib/inference/useInference";
+import { getModel, type ModelConfig } from "@/lib/models";
+
+/** The chat UI shown when a host embeds `/embed?model=<slug>`. */
+function Widget({ model }: { model: ModelConfig }) {
+  const inference = useInference(model);
+  return (
+    <>
+      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8 }}>
+        {model.name} · {inference.status}
+      </div>
+      {model.mode === "chat" ? (
+        <ChatPanel
+          model={model}
+          inference={inference}
+          params={model.generation}
+        />
+      ) : (
+        <CompletionPanel
+          model={model}
+          inference={inference}
+          params={model.generation}
+        />
+      )}
+    </>
+  );
+}
+
+function Embed() {
+  const slug = useSearchParams().get("model");
+  const model = slug ? getModel(slug) : undefined;
+
+  useEffect(() => serveEmbedApi(), []);
+
+  if (model) return <Widget model={model} />;
+  const origins = allowedOrigins();
+  return (
+    <div style={{ fontSize: 12, opacity: 0.7 }}>
+      {slug && <div>Unknown model &quot;{slug}&quot;.</div>}
+      Embed API ready. Accepting requests from this origin
+      {origins.length > 0 && ` and ${origins.join(", ")}`}.
+    </div>
+  );
+}
+
+/**
+ * Target for host pages' iframes: serves the `postMessage` API from
+ * `lib/embed` and, with `?model=<slug>`, a compact chat widget.
+ */
+export default function Page() {
+  return (
+    <main style={{ padding: 12, fontFamily: "system-ui" }}>
+      <Suspense>
+        <Embed />
+      </Suspense>
+    </main>
+  );
+}
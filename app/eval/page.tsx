@@ -0,0 +1,716 @@
+"use client";
+
+import Link from "next/link";
+import { useRef, useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { targetKey, type BenchTarget } from "@/lib/benchmark";
+import { promptInput } from "@/lib/chat";
+import { downloadFile } from "@/lib/download";
+import {
+  compareReports,
+  diffWords,
+  passRate,
+  scoreCase,
+  SCORERS,
+  type CaseChange,
+  type CaseResult,
+  type EvalCase,
+  type EvalReport,
+  type EvalSuite,
+  type ScorerKind,
+} from "@/lib/eval/scorers";
+import {
+  deleteReport,
+  newCase,
+  parseSuite,
+  saveReport,
+  saveSuite,
+  useEvalReports,
+  useSuite,
+} from "@/lib/eval/store";
+import { getInferenceClient, getModelManager } from "@/lib/inference/client";
+import { describeError, getErrorMessage } from "@/lib/inference/errors";
+import {
+  generatedText,
+  modelKey,
+  toModelSpec,
+} from "@/lib/inference/protocol";
+import {
+  getModel,
+  MODELS,
+  type ModelConfig,
+  type ModelDevice,
+  type ModelDtype,
+} from "@/lib/models";
+import { PRESETS } from "@/lib/params";
+import { embedTexts } from "@/lib/rag";
+
+const cellStyle = { padding: "4px 8px", verticalAlign: "top" };
+
+const CHANGE_COLORS: Record<CaseChange, string | undefined> = {
+  fixed: "#2a7",
+  broken: "#c33",
+  same: undefined,
+  new: undefined,
+};
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function describeTarget(t: BenchTarget): string {
+  return `${getModel(t.slug)?.name ?? t.slug} · ${t.device} · ${t.dtype}`;
+}
+
+/** `after` with words missing from `before` struck out and new ones marked. */
+function DiffText({ before, after }: { before: string; after: string }) {
+  return (
+    <span style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+      {diffWords(before, after).map((part, i) =>
+        part.kind === "same" ? (
+          <span key={i}>{part.text}</span>
+        ) : part.kind === "added" ? (
+          <ins key={i} style={{ background: "#dfd", textDecoration: "none" }}>
+            {part.text}
+          </ins>
+        ) : (
+          <del key={i} style={{ background: "#fdd" }}>
+            {part.text}
+          </del>
+        )
+      )}
+    </span>
+  );
+}
+
+function CaseEditor({
+  testCase,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  testCase: EvalCase;
+  onChange: (next: EvalCase) => void;
+  onRemove: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <div style={{ ...boxStyle, background: "rgba(0,0,0,0.02)" }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input
+          value={testCase.id}
+          onChange={(e) => onChange({ ...testCase, id: e.target.value })}
+          style={{ ...fieldStyle, marginTop: 0, width: 160 }}
+          aria-label="Case id"
+          disabled={disabled}
+        />
+        <select
+          value={testCase.scorer}
+          onChange={(e) =>
+            onChange({ ...testCase, scorer: e.target.value as ScorerKind })
+          }
+          style={{ ...fieldStyle, marginTop: 0, width: "auto" }}
+          disabled={disabled}
+        >
+          {Object.entries(SCORERS).map(([kind, s]) => (
+            <option key={kind} value={kind}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <span style={{ flex: 1 }} />
+        <button
+          onClick={onRemove}
+          disabled={disabled}
+          style={{ ...buttonStyle(disabled), margin: 0 }}
+        >
+          Remove
+        </button>
+      </div>
+      <label style={{ display: "block", margin: "8px 0" }}>
+        Prompt
+        <textarea
+          value={testCase.prompt}
+          onChange={(e) => onChange({ ...testCase, prompt: e.target.value })}
+          rows={2}
+          style={fieldStyle}
+          disabled={disabled}
+        />
+      </label>
+      <label style={{ display: "block" }}>
+        {SCORERS[testCase.scorer].expected}
+        <textarea
+          value={testCase.expected}
+          onChange={(e) =>
+            onChange({ ...testCase, expected: e.target.value })
+          }
+          rows={testCase.scorer === "json-schema" ? 4 : 2}
+          style={{
+            ...fieldStyle,
+            fontFamily:
+              testCase.scorer === "json-schema" || testCase.scorer === "regex"
+                ? "monospace"
+                : undefined,
+          }}
+          disabled={disabled}
+        />
+      </label>
+    </div>
+  );
+}
+
+/**
+ * Per-case results of `report`. With a baseline, each case shows whether it
+ * was fixed or broken since, and its output is diffed against the
+ * baseline's; otherwise exact-match and similarity outputs are diffed
+ * against the expected answer.
+ */
+function ReportView({
+  report,
+  baseline,
+}: {
+  report: EvalReport;
+  baseline: EvalReport | null;
+}) {
+  const rows = compareReports(report, baseline);
+  const rate = passRate(report);
+  const delta = baseline ? rate - passRate(baseline) : null;
+
+  function reference(r: CaseResult, b: CaseResult | null): string | null {
+    if (b) return b.output;
+    return r.scorer === "exact" || r.scorer === "similarity"
+      ? r.expected
+      : null;
+  }
+
+  return (
+    <>
+      <h2 style={{ fontSize: 20, marginTop: 32 }}>
+        {formatRate(rate)} passed · {describeTarget(report.target)}
+      </h2>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        {report.suiteName}, {new Date(report.createdAt).toLocaleString()},{" "}
+        {report.results.filter((r) => r.passed).length}/
+        {report.results.length} cases
+        {baseline && delta !== null && (
+          <>
+            {" "}
+            · {delta >= 0 ? "+" : ""}
+            {Math.round(delta * 100)} points vs{" "}
+            {describeTarget(baseline.target)} (
+            {new Date(baseline.createdAt).toLocaleString()})
+          </>
+        )}
+      </p>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th style={cellStyle}>Case</th>
+            <th style={cellStyle}>Result</th>
+            <th style={cellStyle}>
+              Output{baseline ? " (diff vs baseline)" : ""}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ current: r, baseline: b, change }, i) => {
+            const ref = reference(r, b);
+            return (
+              <tr key={i} style={{ borderTop: "1px solid #ddd" }}>
+                <td style={{ ...cellStyle, width: "30%" }}>
+                  <strong>{r.caseId}</strong>
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>
+                    {SCORERS[r.scorer].label}
+                  </div>
+                  <div style={{ fontSize: 13, whiteSpace: "pre-wrap" }}>
+                    {r.prompt}
+                  </div>
+                </td>
+                <td style={{ ...cellStyle, width: 110 }}>
+                  <span style={{ color: r.passed ? "#2a7" : "#c33" }}>
+                    {r.passed ? "pass" : "fail"}
+                  </span>
+                  {baseline && change !== "same" && (
+                    <div style={{ fontSize: 12, color: CHANGE_COLORS[change] }}>
+                      {change}
+                    </div>
+                  )}
+                </td>
+                <td style={cellStyle}>
+                  {r.error ? (
+                    <span style={{ color: "#c33", whiteSpace: "pre-wrap" }}>
+                      {describeError(r.error)}
+                    </span>
+                  ) : ref !== null ? (
+                    <DiffText before={ref} after={r.output} />
+                  ) : (
+                    <span style={{ whiteSpace: "pre-wrap" }}>{r.output}</span>
+                  )}
+                  {r.detail && (
+                    <div
+                      style={{
+                        fontSize: 12,
+                        opacity: 0.7,
+                        whiteSpace: "pre-wrap",
+                      }}
+                    >
+                      {r.detail}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+export default function Page() {
+  const suite = useSuite();
+  const [targets, setTargets] = useState<BenchTarget[]>([
+    { slug: MODELS[0].slug, device: MODELS[0].device, dtype: MODELS[0].dtype },
+  ]);
+  const [status, setStatus] = useState("Idle.");
+  const [running, setRunning] = useState(false);
+  const [viewId, setViewId] = useState<number | null>(null);
+  const [baselineId, setBaselineId] = useState<number | null>(null);
+  const abortRef = useRef(false);
+  const { reports, error } = useEvalReports();
+
+  function updateSuite(patch: Partial<EvalSuite>): void {
+    saveSuite({ ...suite, ...patch });
+  }
+
+  function updateCase(index: number, next: EvalCase | null): void {
+    const cases = [...suite.cases];
+    if (next) cases[index] = next;
+    else cases.splice(index, 1);
+    updateSuite({ cases });
+  }
+
+  function updateTarget(i: number, patch: Partial<BenchTarget>): void {
+    setTargets((ts) => ts.map((t, j) => (j === i ? { ...t, ...patch } : t)));
+  }
+
+  async function runTarget(target: BenchTarget): Promise<EvalReport | null> {
+    const client = getInferenceClient();
+    const model = getModel(target.slug) as ModelConfig;
+    const spec = toModelSpec(model, target);
+    const resident = getModelManager()
+      .list()
+      .some((r) => modelKey(r.spec) === modelKey(spec));
+    // Greedy, so a change in results comes from the model, not sampling
+    const params = {
+      ...model.generation,
+      ...PRESETS.precise,
+      max_new_tokens: suite.max_new_tokens,
+    };
+
+    let loadError: string | null = null;
+    let release: (() => void) | null = null;
+    try {
+      setStatus(`Loading ${describeTarget(target)}...`);
+      await client.load(spec);
+      // Kept between cases, even under an after-run policy
+      release = getModelManager().hold(spec, { acrossRuns: true });
+    } catch (err: unknown) {
+      loadError = getErrorMessage(err);
+    }
+
+    const results: CaseResult[] = [];
+    try {
+      for (const [i, c] of suite.cases.entries()) {
+        if (abortRef.current) break;
+        setStatus(
+          `${describeTarget(target)}: case ${i + 1}/${suite.cases.length}`
+        );
+        const base = {
+          caseId: c.id,
+          prompt: c.prompt,
+          scorer: c.scorer,
+          expected: c.expected,
+        };
+        const failed = (message: string): CaseResult => ({
+          ...base,
+          output: "",
+          error: message,
+          passed: false,
+          score: 0,
+          detail: "",
+          tokens: 0,
+          durationMs: 0,
+        });
+        if (loadError) {
+          results.push(failed(loadError));
+          continue;
+        }
+        try {
+          const input = promptInput(model, c.prompt);
+          const result = await client.generate(spec, input, params).result;
+          const output = generatedText(input, result);
+          const score = await scoreCase(c, output, suite, embedTexts);
+          results.push({
+            ...base,
+            ...score,
+            output,
+            error: null,
+            tokens: result.stats.tokens,
+            durationMs: result.stats.durationMs,
+          });
+        } catch (err: unknown) {
+          results.push(failed(getErrorMessage(err)));
+        }
+      }
+
+    } finally {
+      release?.();
+    }
+    if (!resident) await client.dispose(spec);
+    if (abortRef.current) return null;
+    return {
+      createdAt: Date.now(),
+      suiteName: suite.name,
+      target,
+      max_new_tokens: suite.max_new_tokens,
+      results,
+    };
+  }
+
+  async function onRun(): Promise<void> {
+    if (suite.cases.length === 0) return;
+    abortRef.current = false;
+    setRunning(true);
+    let saved = 0;
+    try {
+      for (const target of targets) {
+        const report = await runTarget(target);
+        if (!report) break;
+        const id = await saveReport(report);
+        saved++;
+        setViewId(id);
+      }
+      setStatus(
+        abortRef.current
+          ? `Stopped; ${saved} completed run(s) saved.`
+          : `Done: ${saved} run(s) saved.`
+      );
+    } catch (err: unknown) {
+      setStatus(`Run failed: ${getErrorMessage(err)}`);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function onImport(file: File | undefined): Promise<void> {
+    if (!file) return;
+    try {
+      const imported = parseSuite(await file.text());
+      updateSuite(imported);
+      setStatus(`Imported suite "${imported.name}" from ${file.name}.`);
+    } catch (err: unknown) {
+      setStatus(`Import failed: ${getErrorMessage(err)}`);
+    }
+  }
+
+  const view = reports.find((r) => r.id === viewId) ?? reports[0] ?? null;
+  const baseline =
+    baselineId !== null && baselineId !== view?.id
+      ? (reports.find((r) => r.id === baselineId) ?? null)
+      : null;
+  const duplicateTargets =
+    new Set(targets.map(targetKey)).size !== targets.length;
+
+  return (
+    <main
+      style={{
+        maxWidth: 1000,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Evals</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        Runs every test case on each target with greedy decoding, scores the
+        answers and saves a report. Compare reports to see which cases a
+        quantization or model change fixed or broke.
+      </p>
+
+      <div style={boxStyle}>
+        <label style={{ display: "block", marginBottom: 8 }}>
+          Suite name
+          <input
+            value={suite.name}
+            onChange={(e) => updateSuite({ name: e.target.value })}
+            style={fieldStyle}
+            disabled={running}
+          />
+        </label>
+        <div style={{ display: "flex", gap: 16, fontSize: 14 }}>
+          <label>
+            Max new tokens{" "}
+            <input
+              type="number"
+              min={1}
+              value={suite.max_new_tokens}
+              onChange={(e) =>
+                updateSuite({
+                  max_new_tokens: Math.max(1, Number(e.target.value) || 1),
+                })
+              }
+              style={{ width: 70 }}
+              disabled={running}
+            />
+          </label>
+          <label>
+            Similarity to pass{" "}
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={suite.similarityThreshold}
+              onChange={(e) =>
+                updateSuite({
+                  similarityThreshold: Math.min(
+                    1,
+                    Math.max(0, Number(e.target.value))
+                  ),
+                })
+              }
+              style={{ width: 70 }}
+              disabled={running}
+            />
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={suite.ignoreCase}
+              onChange={(e) => updateSuite({ ignoreCase: e.target.checked })}
+              disabled={running}
+            />{" "}
+            Ignore case
+          </label>
+        </div>
+      </div>
+
+      <h2 style={{ fontSize: 20 }}>Test cases · {suite.cases.length}</h2>
+      {suite.cases.map((c, i) => (
+        <CaseEditor
+          key={i}
+          testCase={c}
+          onChange={(next) => updateCase(i, next)}
+          onRemove={() => updateCase(i, null)}
+          disabled={running}
+        />
+      ))}
+      <div style={{ marginBottom: 16 }}>
+        <button
+          onClick={() =>
+            updateSuite({ cases: [...suite.cases, newCase(suite, "contains")] })
+          }
+          disabled={running}
+          style={buttonStyle(running)}
+        >
+          Add case
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              "eval-suite.json",
+              JSON.stringify(suite, null, 2),
+              "application/json"
+            )
+          }
+          style={buttonStyle()}
+        >
+          Export suite
+        </button>
+        <label style={{ fontSize: 14 }}>
+          Import suite:{" "}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              void onImport(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+            disabled={running}
+          />
+        </label>
+      </div>
+
+      <div style={boxStyle}>
+        <strong>Targets</strong>
+        {targets.map((t, i) => {
+          const m = getModel(t.slug) as ModelConfig;
+          return (
+            <div key={i} style={{ marginTop: 8 }}>
+              <select
+                value={t.slug}
+                onChange={(e) => {
+                  const next = getModel(e.target.value) as ModelConfig;
+                  updateTarget(i, {
+                    slug: next.slug,
+                    device: next.device,
+                    dtype: next.dtype,
+                  });
+                }}
+                disabled={running}
+              >
+                {MODELS.map((mm) => (
+                  <option key={mm.slug} value={mm.slug}>
+                    {mm.name}
+                  </option>
+                ))}
+              </select>{" "}
+              <select
+                value={t.device}
+                onChange={(e) =>
+                  updateTarget(i, { device: e.target.value as ModelDevice })
+                }
+                disabled={running}
+              >
+                <option value="wasm">wasm</option>
+                <option value="webgpu">webgpu</option>
+              </select>{" "}
+              <select
+                value={t.dtype}
+                onChange={(e) =>
+                  updateTarget(i, { dtype: e.target.value as ModelDtype })
+                }
+                disabled={running}
+              >
+                {m.dtypes.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>{" "}
+              <button
+                onClick={() => setTargets((ts) => ts.filter((_, j) => j !== i))}
+                disabled={running || targets.length === 1}
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+        <button
+          onClick={() => setTargets((ts) => [...ts, ts[ts.length - 1]])}
+          disabled={running}
+          style={{ ...buttonStyle(running), marginTop: 8 }}
+        >
+          Add target
+        </button>
+        {duplicateTargets && (
+          <div style={{ fontSize: 14, opacity: 0.7 }}>
+            The same target twice runs the suite twice (greedy decoding gives
+            the same answers).
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => void onRun()}
+        disabled={running || suite.cases.length === 0}
+        style={buttonStyle(running || suite.cases.length === 0)}
+      >
+        {running ? "Running..." : "Run evals"}
+      </button>
+      {running && (
+        <button
+          onClick={() => {
+            abortRef.current = true;
+          }}
+          style={buttonStyle()}
+        >
+          Stop after current case
+        </button>
+      )}
+      <div style={boxStyle}>
+        <strong>Status:</strong> {status}
+        {error && <div style={{ color: "#c33" }}>{error}</div>}
+      </div>
+
+      {reports.length > 0 && (
+        <>
+          <h2 style={{ fontSize: 20 }}>Saved runs</h2>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th style={cellStyle}>Run</th>
+                <th style={cellStyle}>Target</th>
+                <th style={cellStyle}>Passed</th>
+                <th style={cellStyle}>Show</th>
+                <th style={cellStyle}>Baseline</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {reports.map((r) => (
+                <tr key={r.id} style={{ borderTop: "1px solid #ddd" }}>
+                  <td style={cellStyle}>
+                    {r.suiteName}
+                    <div style={{ fontSize: 12, opacity: 0.7 }}>
+                      {new Date(r.createdAt).toLocaleString()}
+                    </div>
+                  </td>
+                  <td style={cellStyle}>{describeTarget(r.target)}</td>
+                  <td style={cellStyle}>{formatRate(passRate(r))}</td>
+                  <td style={cellStyle}>
+                    <input
+                      type="radio"
+                      name="view"
+                      checked={r.id === view?.id}
+                      onChange={() => setViewId(r.id ?? null)}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      checked={r.id === baselineId}
+                      onChange={(e) =>
+                        setBaselineId(e.target.checked ? (r.id ?? null) : null)
+                      }
+                    />
+                  </td>
+                  <td style={{ textAlign: "right", paddingTop: 16 }}>
+                    <button
+                      onClick={() =>
+                        downloadFile(
+                          `eval-${r.target.slug}-${r.createdAt}.json`,
+                          JSON.stringify(r, null, 2),
+                          "application/json"
+                        )
+                      }
+                      style={buttonStyle()}
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (r.id !== undefined) void deleteReport(r.id);
+                      }}
+                      disabled={running}
+                      style={buttonStyle(running)}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {view && <ReportView report={view} baseline={baseline} />}
+    </main>
+  );
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import OfflineIndicator from "@/components/OfflineIndicator";
+import OpenAIFacade from "@/components/OpenAIFacade";
+import ServiceWorker from "@/components/ServiceWorker";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -27,7 +30,10 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        <OpenAIFacade />
+        <ServiceWorker />
         {children}
+        <OfflineIndicator />
       </body>
     </html>
   );
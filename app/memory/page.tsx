@@ -0,0 +1,209 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { getModelManager } from "@/lib/inference/client";
+import type { ResidentModel } from "@/lib/inference/manager";
+import { modelKey } from "@/lib/inference/protocol";
+import {
+  useMemoryPolicy,
+  useResidentModels,
+} from "@/lib/inference/useResidentModels";
+import { EMBEDDING_MODEL, MODELS, type MemoryPolicy } from "@/lib/models";
+
+const POLICY_MODELS = [
+  ...MODELS.map((m) => ({ id: m.id, name: m.name })),
+  { id: EMBEDDING_MODEL.id, name: EMBEDDING_MODEL.name },
+];
+
+function describePolicy(policy: MemoryPolicy): string {
+  switch (policy.kind) {
+    case "after-run":
+      return "unload after each run";
+    case "idle":
+      return `unload after ${policy.minutes} min idle`;
+    case "keep-warm":
+      return "keep warm";
+  }
+}
+
+function formatAgo(ms: number): string {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s} s ago`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m} min ago`;
+  return `${Math.floor(m / 60)} h ${m % 60} min ago`;
+}
+
+function residentState(r: ResidentModel): string {
+  if (r.active > 0) return "generating";
+  return r.holders > 0 ? "on screen" : "idle";
+}
+
+function PolicyEditor({
+  policy,
+  onChange,
+}: {
+  policy: MemoryPolicy;
+  onChange: (next: MemoryPolicy) => void;
+}) {
+  const minutes = policy.kind === "idle" ? policy.minutes : 10;
+  return (
+    <span>
+      <select
+        value={policy.kind}
+        onChange={(e) => {
+          const kind = e.target.value as MemoryPolicy["kind"];
+          onChange(kind === "idle" ? { kind, minutes } : { kind });
+        }}
+        style={{ ...fieldStyle, width: "auto" }}
+      >
+        <option value="after-run">Unload after each run</option>
+        <option value="idle">Unload when idle</option>
+        <option value="keep-warm">Keep warm</option>
+      </select>
+      {policy.kind === "idle" && (
+        <>
+          {" after "}
+          <input
+            type="number"
+            min={1}
+            value={policy.minutes}
+            onChange={(e) => {
+              const n = Math.floor(Number(e.target.value));
+              if (n >= 1) onChange({ kind: "idle", minutes: n });
+            }}
+            style={{ ...fieldStyle, width: 70 }}
+          />{" "}
+          min
+        </>
+      )}
+    </span>
+  );
+}
+
+/** The stored policy for a repo, once it can be read (after hydration). */
+function StoredPolicy({ id }: { id: string }) {
+  const policy = useMemoryPolicy(id);
+  if (!policy) return null;
+  return (
+    <PolicyEditor
+      policy={policy}
+      onChange={(next) => getModelManager().setPolicy(id, next)}
+    />
+  );
+}
+
+export default function Page() {
+  const { residents, maxResident } = useResidentModels();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <main
+      style={{
+        maxWidth: 900,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Loaded models</h1>
+
+      <div style={boxStyle}>
+        <strong>Status:</strong>{" "}
+        {residents.length === 0
+          ? "No models loaded."
+          : `${residents.length} model(s) loaded in the worker.`}
+        <div style={{ marginTop: 8, fontSize: 14 }}>
+          <label>
+            Keep at most{" "}
+            <input
+              type="number"
+              min={1}
+              value={maxResident}
+              onChange={(e) => {
+                const n = Math.floor(Number(e.target.value));
+                if (n >= 1) getModelManager().setMaxResident(n);
+              }}
+              style={{ ...fieldStyle, width: 70 }}
+            />{" "}
+            models loaded; the least recently used is unloaded first.
+          </label>
+          <div style={{ opacity: 0.7, marginTop: 4 }}>
+            Models generating or open on a page are never unloaded, so the
+            cap can be exceeded while they are.
+          </div>
+        </div>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th>Model</th>
+            <th>Policy</th>
+            <th>Loaded</th>
+            <th>Last used</th>
+            <th>State</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {residents.map((r) => (
+            <tr
+              key={modelKey(r.spec)}
+              style={{ borderTop: "1px solid #ddd" }}
+            >
+              <td>
+                {r.name}
+                <div style={{ fontSize: 12, opacity: 0.7 }}>
+                  {r.spec.device} · {r.spec.dtype}
+                </div>
+              </td>
+              <td>{describePolicy(r.policy)}</td>
+              <td>{formatAgo(now - r.loadedAt)}</td>
+              <td>{formatAgo(now - r.lastUsedAt)}</td>
+              <td>{residentState(r)}</td>
+              <td style={{ textAlign: "right", paddingTop: 16 }}>
+                <button
+                  onClick={() => void getModelManager().unload(r.spec)}
+                  disabled={r.active > 0}
+                  style={buttonStyle(r.active > 0)}
+                >
+                  Unload
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 style={{ fontSize: 20, marginTop: 32 }}>Memory policies</h2>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <tbody>
+          {POLICY_MODELS.map((m) => (
+            <tr key={m.id} style={{ borderTop: "1px solid #ddd" }}>
+              <td style={{ padding: "8px 0" }}>
+                {m.name}
+                <div style={{ fontSize: 12, opacity: 0.7 }}>
+                  <code>{m.id}</code>
+                </div>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <StoredPolicy id={m.id} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </main>
+  );
+}
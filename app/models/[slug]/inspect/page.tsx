@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import TokenInspector from "@/components/TokenInspector";
+import { getModel, MODELS } from "@/lib/models";
+
+type Props = { params: Promise<{ slug: string }> };
+
+export const dynamicParams = false;
+
+export function generateStaticParams(): Array<{ slug: string }> {
+  return MODELS.map((m) => ({ slug: m.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const model = getModel((await params).slug);
+  return {
+    title: model ? `${model.name} token inspector` : "Model not found",
+  };
+}
+
+export default async function Page({ params }: Props) {
+  const { slug } = await params;
+  if (!getModel(slug)) notFound();
+
+  return <TokenInspector slug={slug} />;
+}
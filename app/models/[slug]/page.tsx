@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ModelPlayground from "@/components/ModelPlayground";
+import { getModel, MODELS } from "@/lib/models";
+
+type Props = { params: Promise<{ slug: string }> };
+
+// Only registry slugs are valid; anything else is a 404.
+export const dynamicParams = false;
+
+export function generateStaticParams(): Array<{ slug: string }> {
+  return MODELS.map((m) => ({ slug: m.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const model = getModel((await params).slug);
+  return { title: model ? `${model.name} (in-browser)` : "Model not found" };
+}
+
+export default async function Page({ params }: Props) {
+  const { slug } = await params;
+  if (!getModel(slug)) notFound();
+
+  return <ModelPlayground slug={slug} />;
+}
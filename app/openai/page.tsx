@@ -0,0 +1,152 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { getErrorMessage } from "@/lib/inference/errors";
+import { MODELS } from "@/lib/models";
+
+const chatModel = MODELS.find((m) => m.mode === "chat") ?? MODELS[0];
+
+const EXAMPLE = `import OpenAI from "openai";
+
+const openai = new OpenAI({
+  baseURL: new URL("/v1", location.href).href,
+  apiKey: "local", // not checked
+  dangerouslyAllowBrowser: true,
+});
+
+const stream = await openai.chat.completions.create({
+  model: "${chatModel.slug}",
+  messages: [{ role: "user", content: "Hello!" }],
+  stream: true,
+  stream_options: { include_usage: true },
+});
+for await (const chunk of stream) {
+  console.log(chunk.choices[0]?.delta.content ?? chunk.usage);
+}`;
+
+const DEFAULT_BODY = JSON.stringify(
+  {
+    model: chatModel.slug,
+    messages: [{ role: "user", content: "Name three colors." }],
+    max_tokens: 32,
+    stream: true,
+  },
+  null,
+  2
+);
+
+export default function Page() {
+  const [path, setPath] = useState("/v1/chat/completions");
+  const [body, setBody] = useState(DEFAULT_BODY);
+  const [response, setResponse] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function onSend(): Promise<void> {
+    setBusy(true);
+    setResponse("");
+    try {
+      const res = await fetch(
+        path,
+        path === "/v1/models"
+          ? undefined
+          : {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body,
+            }
+      );
+      setResponse(`HTTP ${res.status}\n\n`);
+      const reader = res.body?.getReader();
+      const decoder = new TextDecoder();
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        setResponse((prev) => prev + text);
+      }
+    } catch (err: unknown) {
+      setResponse(`Request failed: ${getErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main
+      style={{
+        maxWidth: 900,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>OpenAI-compatible API</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        While this app is open, <code>fetch</code> calls from the page to{" "}
+        <code>/v1/models</code>, <code>/v1/chat/completions</code> and{" "}
+        <code>/v1/completions</code> are answered by the in-browser models,
+        including SSE streaming and the <code>usage</code> block. Model ids are
+        the registry slugs; each model runs on the device/dtype chosen on its
+        page. The API only exists inside this tab, so scripts must run here
+        (e.g. from the devtools console or a component), not from outside the
+        browser. Chat requests may set <code>response_format</code> to{" "}
+        <code>json_object</code> or <code>json_schema</code>; the reply is
+        then constrained to match while it is decoded.
+      </p>
+
+      <pre style={{ ...boxStyle, overflowX: "auto", fontSize: 13 }}>
+        {EXAMPLE}
+      </pre>
+
+      <h2 style={{ fontSize: 20 }}>Try it</h2>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Endpoint{" "}
+        <select
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          disabled={busy}
+        >
+          <option value="/v1/chat/completions">POST /v1/chat/completions</option>
+          <option value="/v1/completions">POST /v1/completions</option>
+          <option value="/v1/models">GET /v1/models</option>
+        </select>
+      </label>
+      {path !== "/v1/models" && (
+        <label style={{ display: "block", marginBottom: 8 }}>
+          Request body
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={10}
+            style={{ ...fieldStyle, fontFamily: "monospace" }}
+            disabled={busy}
+          />
+        </label>
+      )}
+      <button
+        onClick={() => void onSend()}
+        disabled={busy}
+        style={buttonStyle(busy)}
+      >
+        {busy ? "Waiting..." : "Send request"}
+      </button>
+
+      <pre
+        style={{
+          ...boxStyle,
+          minHeight: 120,
+          whiteSpace: "pre-wrap",
+          wordBreak: "break-word",
+          fontSize: 13,
+        }}
+      >
+        {response || "—"}
+      </pre>
+    </main>
+  );
+}
@@ -1,22 +1,47 @@
 import Link from "next/link";
+import { formatDownloadSize, MODELS } from "@/lib/models";
 
 export default function Page() {
   return (
     <main style={{ padding: "2rem" }}>
       <ul>
-        <li>
-          <Link href="/DistilGPT-2">DistilGPT-2</Link>
-        </li>
-        <li>
-          <Link href="/Phi-3-mini-4k-instruct">Phi-3-mini-4k-instruct</Link>
-        </li>
-        <li>
-          <Link href="/SmolLM2-135M-Instruct">SmolLM2-135M-Instruct</Link>
-        </li>
-        <li>
-          <Link href="/llama2.c-stories15M">llama2.c-stories15M</Link>
-        </li>
+        {MODELS.map((m) => (
+          <li key={m.slug} style={{ marginBottom: 8 }}>
+            <Link href={`/models/${m.slug}`}>{m.name}</Link>{" "}
+            <span style={{ opacity: 0.7 }}>
+              ({m.mode}, {m.size.parameters} params,{" "}
+              {formatDownloadSize(m.size.downloadMB)})
+            </span>
+          </li>
+        ))}
       </ul>
+      <p>
+        <Link href="/compare">Compare models side by side</Link>
+      </p>
+      <p>
+        <Link href="/batch">Run a file of prompts</Link>
+      </p>
+      <p>
+        <Link href="/benchmark">Benchmark on this device</Link>
+      </p>
+      <p>
+        <Link href="/eval">Evaluate answer quality</Link>
+      </p>
+      <p>
+        <Link href="/speculative">Speculative decoding with a draft model</Link>
+      </p>
+      <p>
+        <Link href="/openai">OpenAI-compatible API</Link>
+      </p>
+      <p>
+        <Link href="/cache">Manage downloaded models</Link>
+      </p>
+      <p>
+        <Link href="/memory">Loaded models and memory policies</Link>
+      </p>
+      <p>
+        <Link href="/templates">Prompt templates</Link>
+      </p>
     </main>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  APP_SHELL_ROUTES,
+  onnxRuntimeUrls,
+  type PrecacheList,
+} from "@/lib/pwa";
+
+// Built once; the list only changes with the registry or a dependency bump
+export const dynamic = "force-static";
+
+/** The installed transformers.js version, which names its CDN folder. */
+function transformersVersion(): string {
+  // The package's `exports` hide package.json from `import`/`require`
+  const file = path.join(
+    process.cwd(),
+    "node_modules/@huggingface/transformers/package.json"
+  );
+  return (JSON.parse(readFileSync(file, "utf8")) as { version: string })
+    .version;
+}
+
+export function GET(): Response {
+  const list: PrecacheList = {
+    shell: [...APP_SHELL_ROUTES],
+    runtime: onnxRuntimeUrls(transformersVersion()),
+  };
+  return Response.json(list);
+}
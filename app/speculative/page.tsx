@@ -0,0 +1,382 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { promptInput } from "@/lib/chat";
+import { getInferenceClient, getModelManager } from "@/lib/inference/client";
+import { getErrorMessage } from "@/lib/inference/errors";
+import {
+  generatedText,
+  toModelSpec,
+  type GenerateInput,
+  type GenerationResult,
+  type ModelSpec,
+} from "@/lib/inference/protocol";
+import {
+  formatDownloadSize,
+  getModel,
+  MODELS,
+  type DraftModel,
+  type GenerationParams,
+  type ModelConfig,
+} from "@/lib/models";
+import { PRESETS } from "@/lib/params";
+import { compareRuns, withDraft } from "@/lib/speculative";
+
+const TARGETS = MODELS.filter((m) => (m.drafts ?? []).length > 0);
+
+const cellStyle = { padding: "4px 8px", verticalAlign: "top" };
+
+function ms(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)} ms`;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+type Runs = {
+  input: GenerateInput;
+  plain: GenerationResult;
+  assisted: GenerationResult;
+};
+
+export default function Page() {
+  const [slug, setSlug] = useState(TARGETS[0]?.slug ?? "");
+  const model = getModel(slug) as ModelConfig | undefined;
+  const [draft, setDraft] = useState<DraftModel | null>(
+    TARGETS[0]?.drafts?.[0] ?? null
+  );
+  const [prompt, setPrompt] = useState(TARGETS[0]?.defaultPrompt ?? "");
+  const [maxNewTokens, setMaxNewTokens] = useState(64);
+  const [runs, setRuns] = useState<Runs | null>(null);
+  const [status, setStatus] = useState("Idle.");
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef(false);
+  const requestIdRef = useRef<number | null>(null);
+
+  // Leaving the page stops the comparison
+  useEffect(() => {
+    const abort = abortRef;
+    const requestId = requestIdRef;
+    return () => {
+      abort.current = true;
+      if (requestId.current !== null) {
+        getInferenceClient().cancel(requestId.current);
+      }
+    };
+  }, []);
+
+  function onTargetChange(next: string): void {
+    const m = getModel(next) as ModelConfig;
+    setSlug(next);
+    setDraft(m.drafts?.[0] ?? null);
+    setPrompt(m.defaultPrompt);
+    setRuns(null);
+  }
+
+  /** `null` when the run was stopped. */
+  async function generate(
+    spec: ModelSpec,
+    input: GenerateInput,
+    params: GenerationParams
+  ): Promise<GenerationResult | null> {
+    const handle = getInferenceClient().generate(spec, input, params);
+    requestIdRef.current = handle.requestId;
+    try {
+      const result = await handle.result;
+      return result.cancelled || abortRef.current ? null : result;
+    } finally {
+      requestIdRef.current = null;
+    }
+  }
+
+  async function onRun(): Promise<void> {
+    if (!model || !draft || !prompt.trim()) return;
+    const draftModel = getModel(draft.slug) as ModelConfig;
+    const client = getInferenceClient();
+    const manager = getModelManager();
+    const spec = toModelSpec(model);
+    const draftSpec = toModelSpec(draftModel);
+    const input = promptInput(model, prompt);
+    // Greedy on both sides, so the two runs should produce the same text
+    const plain: GenerationParams = {
+      ...model.generation,
+      ...PRESETS.precise,
+      max_new_tokens: maxNewTokens,
+    };
+    const assisted = withDraft(plain, draft);
+
+    abortRef.current = false;
+    setRunning(true);
+    setRuns(null);
+    const releases: Array<() => void> = [];
+    try {
+      for (const [m, s] of [
+        [model, spec],
+        [draftModel, draftSpec],
+      ] as const) {
+        setStatus(`Loading ${m.name}...`);
+        await client.load(s);
+        releases.push(manager.hold(s, { acrossRuns: true }));
+      }
+      // One-token warm-ups, so no timed run pays for either model's first
+      // pass
+      setStatus("Warming up...");
+      const warmedUp =
+        (await generate(spec, input, { ...plain, max_new_tokens: 1 })) &&
+        (await generate(draftSpec, promptInput(draftModel, prompt), {
+          ...draftModel.generation,
+          ...PRESETS.precise,
+          max_new_tokens: 1,
+        }));
+      if (!warmedUp) {
+        setStatus("Stopped.");
+        return;
+      }
+      setStatus(`Plain decoding with ${model.name}...`);
+      const plainResult = await generate(spec, input, plain);
+      if (!plainResult) {
+        setStatus("Stopped.");
+        return;
+      }
+      setStatus(`Decoding with ${draftModel.name} drafting...`);
+      const assistedResult = await generate(spec, input, assisted);
+      if (!assistedResult) {
+        setStatus("Stopped.");
+        return;
+      }
+      setRuns({ input, plain: plainResult, assisted: assistedResult });
+      setStatus("Done.");
+    } catch (err: unknown) {
+      setStatus(`Failed: ${getErrorMessage(err)}`);
+    } finally {
+      for (const release of releases) release();
+      setRunning(false);
+    }
+  }
+
+  function onStop(): void {
+    abortRef.current = true;
+    if (requestIdRef.current !== null) {
+      getInferenceClient().cancel(requestIdRef.current);
+    }
+  }
+
+  const comparison = runs && compareRuns(runs.plain, runs.assisted);
+
+  return (
+    <main
+      style={{
+        maxWidth: 1000,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Speculative decoding</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        A small draft model that shares the target&apos;s tokenizer guesses a
+        few tokens ahead; the target checks all of them in one forward pass
+        and keeps the ones it agrees with. Greedy output is unchanged, so the
+        only difference is speed. This runs one prompt both ways and compares.
+        On a model page, pick the draft under Generation settings.
+      </p>
+
+      {!model ? (
+        <div style={boxStyle}>No model in the registry has a draft model.</div>
+      ) : (
+        <div style={boxStyle}>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+              gap: 12,
+              marginBottom: 12,
+            }}
+          >
+            <label>
+              Target
+              <select
+                value={slug}
+                onChange={(e) => onTargetChange(e.target.value)}
+                disabled={running}
+                style={fieldStyle}
+              >
+                {TARGETS.map((m) => (
+                  <option key={m.slug} value={m.slug}>
+                    {m.name} ({formatDownloadSize(m.size.downloadMB)})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Draft
+              <select
+                value={draft?.slug ?? ""}
+                onChange={(e) =>
+                  setDraft(
+                    model.drafts?.find((d) => d.slug === e.target.value) ??
+                      null
+                  )
+                }
+                disabled={running}
+                style={fieldStyle}
+              >
+                {model.drafts?.map((d) => {
+                  const m = getModel(d.slug);
+                  return (
+                    <option key={d.slug} value={d.slug}>
+                      {m?.name ?? d.slug}
+                      {m && ` (${formatDownloadSize(m.size.downloadMB)})`}
+                    </option>
+                  );
+                })}
+              </select>
+            </label>
+            <label>
+              Drafted tokens per pass
+              <input
+                type="number"
+                min={1}
+                max={16}
+                value={draft?.lookahead ?? ""}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (draft && value >= 1) {
+                    setDraft({ ...draft, lookahead: Math.floor(value) });
+                  }
+                }}
+                disabled={running || !draft}
+                style={fieldStyle}
+              />
+            </label>
+            <label>
+              Max new tokens
+              <input
+                type="number"
+                min={1}
+                value={maxNewTokens}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value >= 1) setMaxNewTokens(Math.floor(value));
+                }}
+                disabled={running}
+                style={fieldStyle}
+              />
+            </label>
+          </div>
+          <label style={{ display: "block", marginBottom: 12 }}>
+            Prompt
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              rows={3}
+              disabled={running}
+              style={fieldStyle}
+            />
+          </label>
+          <button
+            onClick={() => void onRun()}
+            disabled={running || !draft || !prompt.trim()}
+            style={buttonStyle(running || !draft || !prompt.trim())}
+          >
+            {running ? "Running..." : "Compare"}
+          </button>
+          {running && (
+            <button onClick={onStop} style={buttonStyle()}>
+              Stop
+            </button>
+          )}
+          <div style={{ marginTop: 8, fontSize: 14 }}>{status}</div>
+        </div>
+      )}
+
+      {model && runs && comparison && (
+        <>
+          <div style={boxStyle}>
+            <strong>{comparison.speedup.toFixed(2)}×</strong> the plain
+            speed · {percent(comparison.acceptanceRate)} of drafted tokens
+            accepted · {comparison.tokensPerPass.toFixed(2)} tokens per target
+            pass
+            <div style={{ marginTop: 8, fontSize: 14, opacity: 0.8 }}>
+              {comparison.sameOutput
+                ? "Both runs produced the same text."
+                : "The outputs differ: scoring several tokens in one pass " +
+                  "can round differently and flip a near tie."}
+            </div>
+          </div>
+
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              marginBottom: 16,
+            }}
+          >
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th style={cellStyle}>Decoding</th>
+                <th style={cellStyle}>Tokens</th>
+                <th style={cellStyle}>Target passes</th>
+                <th style={cellStyle}>Accepted</th>
+                <th style={cellStyle}>First token</th>
+                <th style={cellStyle}>Tok/s</th>
+                <th style={cellStyle}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(
+                [
+                  ["Plain", runs.plain],
+                  ["Speculative", runs.assisted],
+                ] as const
+              ).map(([label, r]) => (
+                <tr key={label} style={{ borderTop: "1px solid #ddd" }}>
+                  <td style={cellStyle}>{label}</td>
+                  <td style={cellStyle}>{r.stats.tokens}</td>
+                  <td style={cellStyle}>
+                    {r.speculative?.targetPasses ?? r.stats.tokens}
+                  </td>
+                  <td style={cellStyle}>
+                    {r.speculative
+                      ? `${r.speculative.accepted}/${r.speculative.drafted}`
+                      : "—"}
+                  </td>
+                  <td style={cellStyle}>{ms(r.stats.timeToFirstTokenMs)}</td>
+                  <td style={cellStyle}>
+                    {r.stats.tokensPerSecond.toFixed(1)}
+                  </td>
+                  <td style={cellStyle}>{ms(r.stats.durationMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: "flex", gap: 12 }}>
+            {(
+              [
+                ["Plain", runs.plain],
+                ["Speculative", runs.assisted],
+              ] as const
+            ).map(([label, r]) => (
+              <div
+                key={label}
+                style={{ ...boxStyle, flex: 1, whiteSpace: "pre-wrap" }}
+              >
+                <strong>{label}</strong>
+                <div style={{ marginTop: 8 }}>
+                  {generatedText(runs.input, r)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { downloadFile } from "@/lib/download";
+import { getModel, MODELS } from "@/lib/models";
+import {
+  deleteTemplate,
+  exportTemplates,
+  importTemplates,
+  newTemplate,
+  parseTemplates,
+  saveTemplate,
+  templateVariables,
+  useTemplates,
+  type FewShotExample,
+  type PromptTemplate,
+} from "@/lib/templates";
+
+function ExampleEditor({
+  example,
+  index,
+  onChange,
+  onRemove,
+}: {
+  example: FewShotExample;
+  index: number;
+  onChange: (next: FewShotExample) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div style={{ ...boxStyle, background: "rgba(0,0,0,0.02)" }}>
+      <div style={{ display: "flex", justifyContent: "space-between" }}>
+        <strong>Example {index + 1}</strong>
+        <button onClick={onRemove} style={{ ...buttonStyle(), margin: 0 }}>
+          Remove
+        </button>
+      </div>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Input
+        <textarea
+          value={example.input}
+          onChange={(e) => onChange({ ...example, input: e.target.value })}
+          rows={2}
+          style={fieldStyle}
+        />
+      </label>
+      <label style={{ display: "block" }}>
+        Output
+        <textarea
+          value={example.output}
+          onChange={(e) => onChange({ ...example, output: e.target.value })}
+          rows={2}
+          style={fieldStyle}
+        />
+      </label>
+    </div>
+  );
+}
+
+/** Edits a copy of a template; nothing is stored until Save. */
+function TemplateEditor({
+  initial,
+  onClose,
+}: {
+  initial: PromptTemplate;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const variables = templateVariables(draft);
+  const target = draft.model ? getModel(draft.model) : undefined;
+  const update = (patch: Partial<PromptTemplate>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  function setExample(index: number, next: FewShotExample | null): void {
+    const examples = [...draft.examples];
+    if (next) examples[index] = next;
+    else examples.splice(index, 1);
+    update({ examples });
+  }
+
+  const invalid = !draft.name.trim() || !draft.body.trim();
+
+  return (
+    <div style={boxStyle}>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Name
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          style={fieldStyle}
+        />
+      </label>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Description
+        <input
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          style={fieldStyle}
+          placeholder="Optional: what it is for, what to fill in..."
+        />
+      </label>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Target model{" "}
+        <select
+          value={draft.model ?? ""}
+          onChange={(e) => update({ model: e.target.value || null })}
+          style={{ ...fieldStyle, width: "auto" }}
+        >
+          <option value="">Any model</option>
+          {MODELS.map((m) => (
+            <option key={m.slug} value={m.slug}>
+              {m.name} ({m.mode})
+            </option>
+          ))}
+        </select>
+      </label>
+      {target?.mode !== "completion" && (
+        <label style={{ display: "block", marginBottom: 8 }}>
+          System prompt
+          <textarea
+            value={draft.system}
+            onChange={(e) => update({ system: e.target.value })}
+            rows={2}
+            style={fieldStyle}
+            placeholder="Optional; chat models only."
+          />
+        </label>
+      )}
+
+      {draft.examples.map((example, i) => (
+        <ExampleEditor
+          key={i}
+          example={example}
+          index={i}
+          onChange={(next) => setExample(i, next)}
+          onRemove={() => setExample(i, null)}
+        />
+      ))}
+      <button
+        onClick={() =>
+          update({ examples: [...draft.examples, { input: "", output: "" }] })
+        }
+        style={buttonStyle()}
+      >
+        Add few-shot example
+      </button>
+
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Prompt
+        <textarea
+          value={draft.body}
+          onChange={(e) => update({ body: e.target.value })}
+          rows={6}
+          style={fieldStyle}
+          placeholder="Summarize this for {{audience}}: {{text}}"
+        />
+      </label>
+      <p style={{ fontSize: 14, opacity: 0.8, marginTop: 0 }}>
+        Variables:{" "}
+        {variables.length > 0
+          ? variables.map((v) => `{{${v}}}`).join(", ")
+          : "none; write {{name}} anywhere above to add one."}
+      </p>
+
+      <button
+        onClick={() => {
+          saveTemplate(draft);
+          onClose();
+        }}
+        disabled={invalid}
+        style={buttonStyle(invalid)}
+      >
+        Save
+      </button>
+      <button onClick={onClose} style={buttonStyle()}>
+        Cancel
+      </button>
+      {invalid && (
+        <span style={{ fontSize: 14, opacity: 0.7 }}>
+          A template needs a name and a prompt.
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function Page() {
+  const templates = useTemplates();
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function onImport(file: File): Promise<void> {
+    try {
+      const imported = parseTemplates(await file.text());
+      importTemplates(imported);
+      setStatus(`Imported ${imported.length} template(s) from ${file.name}.`);
+    } catch (err: unknown) {
+      setStatus(
+        `Could not import ${file.name}: ` +
+          (err instanceof Error ? err.message : String(err))
+      );
+    }
+  }
+
+  function onExport(list: PromptTemplate[], filename: string): void {
+    downloadFile(filename, exportTemplates(list), "application/json");
+  }
+
+  return (
+    <main
+      style={{
+        maxWidth: 900,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href="/">← Models</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Prompt templates</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        Templates are filled in and previewed from the &quot;Prompt
+        templates&quot; box on a model page. Share them as JSON files.
+      </p>
+
+      <div style={{ marginBottom: 8 }}>
+        <button
+          onClick={() => setEditing(newTemplate())}
+          disabled={editing !== null}
+          style={buttonStyle(editing !== null)}
+        >
+          New template
+        </button>
+        <button
+          onClick={() => onExport(templates, "prompt-templates.json")}
+          disabled={templates.length === 0}
+          style={buttonStyle(templates.length === 0)}
+        >
+          Export all
+        </button>
+        <label style={{ ...buttonStyle(), display: "inline-block" }}>
+          Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onImport(file);
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+      {status && <div style={boxStyle}>{status}</div>}
+
+      {editing && (
+        <TemplateEditor
+          key={editing.id}
+          initial={editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {templates.length === 0 ? (
+        <p>No templates yet.</p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th>Template</th>
+              <th>Model</th>
+              <th>Variables</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {templates.map((t) => (
+              <tr key={t.id} style={{ borderTop: "1px solid #ddd" }}>
+                <td style={{ padding: "8px 0" }}>
+                  {t.name}
+                  {t.description && (
+                    <div style={{ fontSize: 12, opacity: 0.7 }}>
+                      {t.description}
+                    </div>
+                  )}
+                </td>
+                <td>
+                  {t.model ? (
+                    <Link href={`/models/${t.model}`}>
+                      {getModel(t.model)?.name ?? t.model}
+                    </Link>
+                  ) : (
+                    "any"
+                  )}
+                </td>
+                <td style={{ fontSize: 13 }}>
+                  {templateVariables(t).join(", ") || "none"}
+                  {t.examples.length > 0 &&
+                    ` · ${t.examples.length} example(s)`}
+                </td>
+                <td style={{ textAlign: "right", paddingTop: 16 }}>
+                  <button
+                    onClick={() => setEditing(t)}
+                    disabled={editing !== null}
+                    style={buttonStyle(editing !== null)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => onExport([t], `${t.name}.json`)}
+                    style={buttonStyle()}
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => deleteTemplate(t.id)}
+                    style={buttonStyle()}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { detectCapabilities, type Capabilities } from "@/lib/capabilities";
+import type { Backend } from "@/lib/inference/backend";
+import type { ModelDevice, ModelDtype } from "@/lib/models";
+
+const selectStyle = {
+  marginLeft: 6,
+  marginRight: 16,
+  padding: "4px 6px",
+  borderRadius: 8,
+  border: "1px solid #ddd",
+};
+
+/** Device and quantization pickers; WebGPU is greyed out when undetected. */
+export default function BackendSelector({
+  backend,
+  dtypes,
+  onChange,
+  disabled = false,
+}: {
+  backend: Backend;
+  /** Quantizations the model repo actually ships. */
+  dtypes: ModelDtype[];
+  onChange: (backend: Backend) => void;
+  disabled?: boolean;
+}) {
+  const [caps, setCaps] = useState<Capabilities | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    void detectCapabilities().then((c) => {
+      if (!stale) setCaps(c);
+    });
+    return () => {
+      stale = true;
+    };
+  }, []);
+
+  return (
+    <div style={{ marginBottom: 16, fontSize: 14 }}>
+      <label>
+        Backend
+        <select
+          value={backend.device}
+          onChange={(e) =>
+            onChange({ ...backend, device: e.target.value as ModelDevice })
+          }
+          disabled={disabled}
+          style={selectStyle}
+        >
+          <option value="webgpu" disabled={caps !== null && !caps.webgpu}>
+            webgpu{caps && !caps.webgpu ? " (unavailable)" : ""}
+          </option>
+          <option value="wasm">wasm (CPU)</option>
+        </select>
+      </label>
+      <label>
+        Quantization
+        <select
+          value={backend.dtype}
+          onChange={(e) =>
+            onChange({ ...backend, dtype: e.target.value as ModelDtype })
+          }
+          disabled={disabled}
+          style={selectStyle}
+        >
+          {dtypes.map((d) => (
+            <option key={d} value={d}>
+              {d}
+            </option>
+          ))}
+        </select>
+      </label>
+      {caps && (
+        <span style={{ opacity: 0.7 }}>
+          {caps.webgpu
+            ? `WebGPU available${caps.shaderF16 ? " (fp16 capable)" : ""}`
+            : `WebGPU unavailable: ${caps.reason}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+"use client";
+
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import { GenerationStatsLine } from "@/components/GenerationOutput";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { ToolTrace } from "@/components/ToolsPanel";
+import { fitToContext, withSystemPrompt } from "@/lib/chat";
+import { recordRun, splitChatInput, type OpenedEntry } from "@/lib/history";
+import { describeError } from "@/lib/inference/errors";
+import type { ChatMessage, GenerateInput } from "@/lib/inference/protocol";
+import type { Inference } from "@/lib/inference/useInference";
+import type { GenerationParams, ModelConfig } from "@/lib/models";
+import {
+  citedSources,
+  retrieve,
+  withSources,
+  type Retrieval,
+  type RetrievedChunk,
+} from "@/lib/rag";
+import {
+  runToolLoop,
+  TOOL_CALL_CLOSE,
+  type ToolLoopResult,
+  type ToolStep,
+} from "@/lib/tools/loop";
+import type { Tool } from "@/lib/tools/tools";
+
+/** Retrieved chunks under a reply; the ones it cites are highlighted. */
+function SourceList({
+  reply,
+  sources,
+}: {
+  reply: string;
+  sources: RetrievedChunk[];
+}) {
+  const cited = citedSources(reply);
+  return (
+    <div style={{ marginTop: 8, fontSize: 13 }}>
+      {sources.map((s) => (
+        <details key={s.n} style={{ opacity: cited.has(s.n) ? 1 : 0.6 }}>
+          <summary style={{ cursor: "pointer" }}>
+            <strong>[{s.n}]</strong> {s.docName} · chunk {s.index + 1}
+            {cited.has(s.n) && " · cited"}
+          </summary>
+          <div style={{ whiteSpace: "pre-wrap", margin: "4px 0 8px 16px" }}>
+            {s.text}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function MessageBubble({
+  message,
+  pending = false,
+  sources,
+  steps,
+}: {
+  message: ChatMessage;
+  pending?: boolean;
+  sources?: RetrievedChunk[];
+  steps?: ToolStep[];
+}) {
+  return (
+    <div
+      style={{
+        ...boxStyle,
+        marginBottom: 8,
+        background: message.role === "user" ? "rgba(0,0,0,0.04)" : undefined,
+        opacity: pending ? 0.8 : 1,
+      }}
+    >
+      <div style={{ fontSize: 12, fontWeight: 600, opacity: 0.7 }}>
+        {message.role}
+      </div>
+      {steps && steps.length > 0 && <ToolTrace steps={steps} />}
+      <div style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+        {message.content || "…"}
+      </div>
+      {sources && sources.length > 0 && (
+        <SourceList reply={message.content} sources={sources} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Initial system prompt and turns: the model defaults, or those of an opened
+ * history entry. A re-run stops at the entry's last user message (it is
+ * sent again); a fork also keeps the reply.
+ *
+ * A preset (a filled template) supplies the system prompt and the example
+ * turns; its final user message becomes the draft, ready to send.
+ */
+function openedChat(
+  model: ModelConfig,
+  opened: OpenedEntry | null,
+  preset: GenerateInput | undefined
+): { systemPrompt: string; messages: ChatMessage[]; draft?: string } {
+  if (!opened && Array.isArray(preset)) {
+    const { systemPrompt, messages } = splitChatInput(preset);
+    const last = messages[messages.length - 1];
+    return last?.role === "user"
+      ? { systemPrompt, messages: messages.slice(0, -1), draft: last.content }
+      : { systemPrompt, messages };
+  }
+  if (!opened || typeof opened.entry.input === "string") {
+    return { systemPrompt: model.systemPrompt ?? "", messages: [] };
+  }
+  const { systemPrompt, messages } = splitChatInput(opened.entry.input);
+  if (opened.action === "rerun" || !opened.entry.output) {
+    return { systemPrompt, messages };
+  }
+  return {
+    systemPrompt,
+    messages: [
+      ...messages,
+      { role: "assistant", content: opened.entry.output },
+    ],
+  };
+}
+
+/**
+ * Multi-turn chat for instruct models. The full history (plus the editable
+ * system prompt) goes through the tokenizer's chat template on every turn;
+ * when it outgrows the context window the oldest turns are left out.
+ *
+ * `opened` starts a new conversation from a history entry: a fork continues
+ * after its reply, a re-run asks its last question again. `preset` starts
+ * one from a filled prompt template.
+ *
+ * With `retrieval` enabled, each question is sent with the closest chunks
+ * from the document index, and the reply lists them as citations.
+ *
+ * With `tools`, each reply may first call them (see `runToolLoop`); the
+ * calls and results are shown above the reply.
+ */
+export default function ChatPanel({
+  model,
+  inference,
+  params,
+  opened = null,
+  preset,
+  retrieval,
+  tools = [],
+}: {
+  model: ModelConfig;
+  inference: Inference;
+  params: GenerationParams;
+  opened?: OpenedEntry | null;
+  preset?: GenerateInput;
+  retrieval?: Retrieval;
+  tools?: Tool[];
+}) {
+  const {
+    spec,
+    isLoading,
+    isReady,
+    isGenerating,
+    output,
+    stats,
+    error,
+    stopped,
+    finishReason,
+    speculative,
+    generate,
+    cancel,
+    countTokens,
+  } = inference;
+
+  const [initial] = useState(() => openedChat(model, opened, preset));
+  const [systemPrompt, setSystemPrompt] = useState(initial.systemPrompt);
+  const [messages, setMessages] = useState<ChatMessage[]>(initial.messages);
+  const [draft, setDraft] = useState(
+    initial.draft ?? (opened ? "" : model.defaultPrompt)
+  );
+  const [conversationId, setConversationId] = useState(() =>
+    crypto.randomUUID()
+  );
+  const pendingRerun = useRef(opened?.action === "rerun");
+  const [historyTokens, setHistoryTokens] = useState<number | null>(null);
+  const [dropped, setDropped] = useState(0);
+  /** Chunks each reply was given, by the reply's index in `messages`. */
+  const [sources, setSources] = useState<Record<number, RetrievedChunk[]>>(
+    {}
+  );
+  /** Tool calls made for each reply, keyed the same way. */
+  const [traces, setTraces] = useState<Record<number, ToolStep[]>>({});
+  const [liveSteps, setLiveSteps] = useState<ToolStep[]>([]);
+  // Spans the whole tool loop, including the gaps between generations
+  const [looping, setLooping] = useState(false);
+  // Failures outside generation itself (counting tokens, the tool loop...)
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const reserve = params.max_new_tokens;
+  const busy = isLoading || isGenerating || looping;
+
+  // Re-count whenever the history or system prompt changes (debounced for
+  // typing in the system prompt).
+  useEffect(() => {
+    if (isLoading) return;
+    let stale = false;
+    const timer = setTimeout(() => {
+      countTokens(withSystemPrompt(systemPrompt, messages))
+        .then((n) => {
+          if (!stale) setHistoryTokens(n);
+        })
+        .catch(() => {
+          if (!stale) setHistoryTokens(null);
+        });
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [isLoading, systemPrompt, messages, countTokens]);
+
+  /** Sends `history` for a reply; failures show in the error box. */
+  async function send(
+    history: ChatMessage[],
+    runParams: GenerationParams
+  ): Promise<void> {
+    setSendError(null);
+    try {
+      await respond(history, runParams);
+    } catch (err: unknown) {
+      console.error(err);
+      setSendError(describeError(err));
+    }
+  }
+
+  async function respond(
+    history: ChatMessage[],
+    runParams: GenerationParams
+  ): Promise<void> {
+    let retrieved: RetrievedChunk[] = [];
+    if (retrieval?.enabled) {
+      try {
+        retrieved = await retrieve(
+          history[history.length - 1].content,
+          retrieval.topK
+        );
+      } catch (err: unknown) {
+        console.error("Retrieval failed; answering without documents", err);
+      }
+    }
+
+    const full = withSystemPrompt(systemPrompt, history);
+    let input = withSources(full, retrieved);
+    if (model.contextWindow) {
+      const fit = await fitToContext(
+        input,
+        countTokens,
+        model.contextWindow,
+        reserve
+      );
+      input = fit.messages;
+      setDropped(fit.dropped);
+    }
+
+    let reply: ToolLoopResult;
+    if (tools.length > 0) {
+      setLiveSteps([]);
+      setLooping(true);
+      try {
+        reply = await runToolLoop(
+          input,
+          tools,
+          (prompt) =>
+            generate(prompt, {
+              ...runParams,
+              stop: [...(runParams.stop ?? []), TOOL_CALL_CLOSE],
+            }),
+          setLiveSteps
+        );
+      } finally {
+        setLooping(false);
+      }
+    } else {
+      reply = { result: await generate(input, runParams), steps: [] };
+    }
+    const { result, steps } = reply;
+    if (result && spec) {
+      recordRun(model, spec, full, runParams, result, conversationId);
+    }
+    if (result && result.text) {
+      setMessages([...history, { role: "assistant", content: result.text }]);
+      setSources((prev) => ({ ...prev, [history.length]: retrieved }));
+      setTraces((prev) => ({ ...prev, [history.length]: steps }));
+    }
+  }
+
+  async function onSend(): Promise<void> {
+    const content = draft.trim();
+    if (!content) return;
+    const history: ChatMessage[] = [...messages, { role: "user", content }];
+    setMessages(history);
+    setDraft("");
+    await send(history, params);
+  }
+
+  // An opened "rerun" entry is sent once the model is ready; `messages`
+  // already ends on its last user turn. `send` reports its own failures.
+  const rerun = useEffectEvent(() => {
+    if (!opened || !pendingRerun.current) return;
+    pendingRerun.current = false;
+    void send(messages, opened.entry.params);
+  });
+
+  useEffect(() => {
+    if (isReady) rerun();
+  }, [isReady]);
+
+  function onNewChat(): void {
+    setMessages([]);
+    setSources({});
+    setTraces({});
+    setDropped(0);
+    setConversationId(crypto.randomUUID());
+  }
+
+  const overflow =
+    model.contextWindow !== undefined &&
+    historyTokens !== null &&
+    historyTokens + reserve > model.contextWindow;
+
+  return (
+    <>
+      <label style={{ display: "block", marginBottom: 16 }}>
+        System prompt
+        <textarea
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          rows={2}
+          style={fieldStyle}
+          placeholder="Optional instructions for the assistant..."
+          disabled={isGenerating}
+        />
+      </label>
+
+      {messages.map((m, i) => (
+        <MessageBubble
+          key={i}
+          message={m}
+          sources={sources[i]}
+          steps={traces[i]}
+        />
+      ))}
+      {(isGenerating || looping) && (
+        <MessageBubble
+          message={{ role: "assistant", content: output }}
+          pending
+          steps={liveSteps}
+        />
+      )}
+      {(sendError ?? error) && (
+        <div
+          style={{ ...boxStyle, borderColor: "#e55", whiteSpace: "pre-wrap" }}
+        >
+          Error: {sendError ?? error}
+        </div>
+      )}
+      <GenerationStatsLine
+        stats={stats}
+        stopped={stopped}
+        finishReason={finishReason}
+        speculative={speculative}
+      />
+
+      <label style={{ display: "block", margin: "8px 0" }}>
+        Message
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey && !busy) {
+              e.preventDefault();
+              void onSend();
+            }
+          }}
+          rows={3}
+          style={fieldStyle}
+          placeholder="Type a message (Enter to send, Shift+Enter for a newline)..."
+          disabled={busy}
+        />
+      </label>
+
+      <button
+        onClick={() => void onSend()}
+        disabled={busy}
+        style={buttonStyle(busy)}
+      >
+        {isGenerating ? "Generating..." : "Send"}
+      </button>
+      {isGenerating && (
+        <button onClick={cancel} style={buttonStyle()}>
+          Stop
+        </button>
+      )}
+      <button
+        onClick={onNewChat}
+        disabled={busy || messages.length === 0}
+        style={buttonStyle(busy || messages.length === 0)}
+      >
+        New chat
+      </button>
+
+      <div style={{ fontSize: 14, opacity: 0.8 }}>
+        Context:{" "}
+        <span style={{ color: overflow ? "#c33" : undefined }}>
+          {historyTokens ?? "?"}
+          {model.contextWindow && ` / ${model.contextWindow}`} tokens
+        </span>{" "}
+        (+{reserve} reserved for the reply)
+        {dropped > 0 && (
+          <div>
+            The {dropped} oldest message{dropped === 1 ? "" : "s"} no longer
+            fit and were left out of the last prompt.
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import GenerationOutput from "@/components/GenerationOutput";
+import { buttonStyle, fieldStyle } from "@/components/styles";
+import { recordRun, type OpenedEntry } from "@/lib/history";
+import type { GenerateInput } from "@/lib/inference/protocol";
+import type { Inference } from "@/lib/inference/useInference";
+import type { GenerationParams, ModelConfig } from "@/lib/models";
+
+/**
+ * Single prompt in, single continuation out. `opened` pre-fills the prompt
+ * from a history entry and, for a re-run, generates with its settings once
+ * the model is ready. `preset` pre-fills it from a filled prompt template.
+ */
+export default function CompletionPanel({
+  model,
+  inference,
+  params,
+  opened = null,
+  preset,
+}: {
+  model: ModelConfig;
+  inference: Inference;
+  params: GenerationParams;
+  opened?: OpenedEntry | null;
+  preset?: GenerateInput;
+}) {
+  const {
+    spec,
+    isLoading,
+    isReady,
+    isGenerating,
+    output,
+    stats,
+    error,
+    stopped,
+    finishReason,
+    speculative,
+    generate,
+    cancel,
+  } = inference;
+
+  const [prompt, setPrompt] = useState(() => {
+    if (typeof opened?.entry.input === "string") return opened.entry.input;
+    return typeof preset === "string" ? preset : model.defaultPrompt;
+  });
+  const pendingRerun = useRef(opened?.action === "rerun");
+
+  const busy = isLoading || isGenerating;
+
+  async function run(text: string, runParams: GenerationParams): Promise<void> {
+    const result = await generate(text, runParams);
+    if (result && spec) recordRun(model, spec, text, runParams, result);
+  }
+
+  useEffect(() => {
+    if (!isReady || !opened || !pendingRerun.current) return;
+    pendingRerun.current = false;
+    void run(prompt, opened.entry.params);
+  });
+
+  return (
+    <>
+      <label style={{ display: "block", marginBottom: 8 }}>
+        Input
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={8}
+          style={fieldStyle}
+          placeholder="Type a prompt..."
+          disabled={busy}
+        />
+      </label>
+
+      <button
+        onClick={() => void run(prompt, params)}
+        disabled={busy}
+        style={buttonStyle(busy)}
+      >
+        {isGenerating ? "Generating..." : "Generate"}
+      </button>
+
+      {isGenerating && (
+        <button onClick={cancel} style={buttonStyle()}>
+          Stop
+        </button>
+      )}
+
+      <GenerationOutput
+        output={output}
+        stats={stats}
+        error={error}
+        stopped={stopped}
+        finishReason={finishReason}
+        speculative={speculative}
+      />
+    </>
+  );
+}
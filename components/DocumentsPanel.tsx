@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { boxStyle, buttonStyle } from "@/components/styles";
+import { describeError } from "@/lib/inference/errors";
+import { EMBEDDING_MODEL, formatDownloadSize } from "@/lib/models";
+import {
+  addDocument,
+  deleteDocument,
+  useDocuments,
+  type Retrieval,
+} from "@/lib/rag";
+
+const inputStyle: CSSProperties = {
+  width: 60,
+  padding: 4,
+  borderRadius: 8,
+  border: "1px solid #ddd",
+};
+
+/**
+ * RAG controls for chat pages: the document index (shared by every model)
+ * and whether replies should draw on it.
+ */
+export default function DocumentsPanel({
+  retrieval,
+  onChange,
+  disabled = false,
+}: {
+  retrieval: Retrieval;
+  onChange: (next: Retrieval) => void;
+  disabled?: boolean;
+}) {
+  const { documents, error } = useDocuments();
+  const [status, setStatus] = useState<string | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  async function onFiles(files: File[]): Promise<void> {
+    if (files.length === 0) return;
+    setIndexing(true);
+    try {
+      for (const file of files) {
+        await addDocument(file.name, await file.text(), (done, total) =>
+          setStatus(
+            done === 0
+              ? `Indexing ${file.name} (the first run downloads the ${formatDownloadSize(EMBEDDING_MODEL.downloadMB)} embedding model)...`
+              : `Indexing ${file.name}: ${done}/${total} chunks`
+          )
+        );
+      }
+      setStatus(`Indexed ${files.length} file(s).`);
+    } catch (err: unknown) {
+      setStatus(`Indexing failed: ${describeError(err)}`);
+    } finally {
+      setIndexing(false);
+    }
+  }
+
+  return (
+    <details style={boxStyle} open={retrieval.enabled}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Documents (RAG){retrieval.enabled && " · on"}
+      </summary>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label style={{ marginRight: 16 }}>
+          <input
+            type="checkbox"
+            checked={retrieval.enabled}
+            onChange={(e) =>
+              onChange({ ...retrieval, enabled: e.target.checked })
+            }
+            disabled={disabled}
+          />{" "}
+          Answer from my documents
+        </label>
+        <label>
+          Top-k chunks{" "}
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={retrieval.topK}
+            onChange={(e) =>
+              onChange({
+                ...retrieval,
+                topK: Math.min(10, Math.max(1, Number(e.target.value))),
+              })
+            }
+            disabled={disabled}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          if (!indexing) void onFiles([...e.dataTransfer.files]);
+        }}
+        style={{
+          margin: "12px 0",
+          padding: 16,
+          border: `2px dashed ${dragging ? "#48f" : "#ddd"}`,
+          borderRadius: 10,
+          textAlign: "center",
+          fontSize: 14,
+        }}
+      >
+        Drop .txt or .md files here (extract PDFs to text first), or{" "}
+        <input
+          type="file"
+          multiple
+          accept=".txt,.md,.markdown,text/plain,text/markdown"
+          disabled={indexing}
+          onChange={(e) => {
+            void onFiles([...(e.target.files ?? [])]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {status && <div style={{ fontSize: 14, marginBottom: 8 }}>{status}</div>}
+      {error && (
+        <div style={{ fontSize: 14, color: "#c33" }}>
+          Document index unavailable: {error}
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <div style={{ fontSize: 14, opacity: 0.7 }}>No documents yet.</div>
+      ) : (
+        <table style={{ width: "100%", fontSize: 14 }}>
+          <tbody>
+            {documents.map((d) => (
+              <tr key={d.id}>
+                <td>{d.name}</td>
+                <td style={{ opacity: 0.7 }}>
+                  {d.chunks} chunks · {d.chars.toLocaleString()} chars
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  <button
+                    onClick={() => void deleteDocument(d.id)}
+                    disabled={indexing}
+                    style={{
+                      ...buttonStyle(indexing),
+                      padding: "2px 8px",
+                      marginBottom: 0,
+                    }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
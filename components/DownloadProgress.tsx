@@ -0,0 +1,56 @@
+import {
+  formatBytes,
+  totalProgress,
+  type DownloadState,
+} from "@/lib/inference/progress";
+
+function Bar({ loaded, total }: { loaded: number; total: number }) {
+  return (
+    <progress
+      value={total > 0 ? loaded : undefined}
+      max={total > 0 ? total : undefined}
+      style={{ width: "100%", height: 10 }}
+    />
+  );
+}
+
+/** Overall and per-file download bars fed by the pipeline's progress events. */
+export default function DownloadProgress({
+  downloads,
+}: {
+  downloads: DownloadState;
+}) {
+  const files = Object.values(downloads);
+  if (files.length === 0) return null;
+
+  const { loaded, total } = totalProgress(downloads);
+  const pending = files.filter((f) => !f.done).length;
+
+  return (
+    <div style={{ marginTop: 8, fontSize: 14 }}>
+      <div>
+        {formatBytes(loaded)}
+        {total > 0 && ` of ${formatBytes(total)}`}
+        {pending > 0 ? ` · ${pending} file(s) remaining` : " · all files ready"}
+      </div>
+      <Bar loaded={loaded} total={total} />
+
+      <details style={{ marginTop: 4 }}>
+        <summary style={{ cursor: "pointer", opacity: 0.8 }}>Files</summary>
+        {files.map((f) => (
+          <div key={f.file} style={{ marginTop: 4 }}>
+            <code>{f.file}</code>{" "}
+            <span style={{ opacity: 0.7 }}>
+              {f.done
+                ? "done"
+                : f.total > 0
+                  ? `${Math.round((f.loaded / f.total) * 100)}%`
+                  : "starting"}
+            </span>
+            <Bar loaded={f.loaded} total={f.total} />
+          </div>
+        ))}
+      </details>
+    </div>
+  );
+}
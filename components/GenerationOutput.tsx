@@ -0,0 +1,88 @@
+import { fieldStyle } from "@/components/styles";
+import type {
+  FinishReason,
+  GenerationStats,
+  SpeculativeStats,
+} from "@/lib/inference/protocol";
+import { acceptanceRate } from "@/lib/speculative";
+
+function formatStats(stats: GenerationStats): string {
+  const parts = [`${stats.tokens} tokens`];
+  if (stats.timeToFirstTokenMs !== null) {
+    parts.push(`first token ${Math.round(stats.timeToFirstTokenMs)} ms`);
+  }
+  if (stats.tokensPerSecond > 0) {
+    parts.push(`${stats.tokensPerSecond.toFixed(1)} tok/s`);
+  }
+  parts.push(`${(stats.durationMs / 1000).toFixed(1)} s total`);
+  return parts.join(" · ");
+}
+
+function formatSpeculative(stats: SpeculativeStats): string {
+  const rate = Math.round(acceptanceRate(stats) * 100);
+  return (
+    ` · ${stats.accepted}/${stats.drafted} drafted tokens accepted ` +
+    `(${rate}%)`
+  );
+}
+
+/** Speed figures for the current or last run; stays blank until then. */
+export function GenerationStatsLine({
+  stats,
+  stopped = false,
+  finishReason = null,
+  speculative = null,
+}: {
+  stats: GenerationStats | null;
+  stopped?: boolean;
+  finishReason?: FinishReason | null;
+  speculative?: SpeculativeStats | null;
+}) {
+  return (
+    <div style={{ minHeight: 20, fontSize: 14, opacity: 0.8 }}>
+      {stats && formatStats(stats)}
+      {speculative && formatSpeculative(speculative)}
+      {stopped && " · stopped early"}
+      {finishReason === "length" && " · hit the max new tokens limit"}
+      {finishReason === "stop" && " · ended at a stop sequence"}
+    </div>
+  );
+}
+
+/** Streamed model output plus live speed figures, shared by model pages. */
+export default function GenerationOutput({
+  output,
+  stats,
+  error,
+  stopped = false,
+  finishReason = null,
+  speculative = null,
+}: {
+  output: string;
+  stats: GenerationStats | null;
+  error: string | null;
+  stopped?: boolean;
+  finishReason?: FinishReason | null;
+  speculative?: SpeculativeStats | null;
+}) {
+  return (
+    <div>
+      <label style={{ display: "block" }}>
+        Output
+        <textarea
+          value={error ? `Error: ${error}` : output}
+          readOnly
+          rows={10}
+          style={fieldStyle}
+          placeholder="Model output will appear here..."
+        />
+      </label>
+      <GenerationStatsLine
+        stats={stats}
+        stopped={stopped}
+        finishReason={finishReason}
+        speculative={speculative}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { boxStyle, buttonStyle } from "@/components/styles";
+import {
+  getModel,
+  type GenerationParams,
+  type ModelConfig,
+} from "@/lib/models";
+import { PRESETS, type PresetName } from "@/lib/params";
+import { selectedDraft, withDraft } from "@/lib/speculative";
+
+type NumericKey =
+  | "max_new_tokens"
+  | "temperature"
+  | "top_p"
+  | "top_k"
+  | "repetition_penalty"
+  | "seed";
+
+const NUMERIC_FIELDS: Array<{
+  key: NumericKey;
+  label: string;
+  step: number;
+  min: number;
+  max?: number;
+  /** Only meaningful when sampling. */
+  sampling?: boolean;
+}> = [
+  { key: "max_new_tokens", label: "Max new tokens", step: 1, min: 1 },
+  {
+    key: "temperature",
+    label: "Temperature",
+    step: 0.05,
+    min: 0,
+    max: 2,
+    sampling: true,
+  },
+  { key: "top_p", label: "Top-p", step: 0.01, min: 0, max: 1, sampling: true },
+  { key: "top_k", label: "Top-k (0 = off)", step: 1, min: 0, sampling: true },
+  {
+    key: "repetition_penalty",
+    label: "Repetition penalty",
+    step: 0.05,
+    min: 1,
+    max: 2,
+  },
+  {
+    key: "seed",
+    label: "Seed (blank = random)",
+    step: 1,
+    min: 0,
+    sampling: true,
+  },
+];
+
+const inputStyle: CSSProperties = {
+  width: "100%",
+  marginTop: 4,
+  padding: 6,
+  borderRadius: 8,
+  border: "1px solid #ddd",
+};
+
+/**
+ * Sampling settings with presets; the caller owns persistence. Passing
+ * `model` adds its draft models (speculative decoding), if it has any.
+ */
+export default function GenerationSettings({
+  params,
+  onChange,
+  onReset,
+  disabled = false,
+  model,
+}: {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  onReset: () => void;
+  disabled?: boolean;
+  model?: ModelConfig;
+}) {
+  const drafts = model?.drafts ?? [];
+  const draft = model ? selectedDraft(model, params) : null;
+
+  function setNumber(key: NumericKey, raw: string): void {
+    const value = raw === "" ? undefined : Number(raw);
+    if (key === "max_new_tokens") {
+      if (value !== undefined && value >= 1) {
+        onChange({ ...params, max_new_tokens: Math.floor(value) });
+      }
+      return;
+    }
+    onChange({ ...params, [key]: Number.isFinite(value) ? value : undefined });
+  }
+
+  function applyPreset(name: PresetName): void {
+    onChange({ ...params, ...PRESETS[name] });
+  }
+
+  return (
+    <details style={boxStyle}>
+      <summary style={{ cursor: "pointer" }}>
+        <strong>Generation settings</strong>{" "}
+        <span style={{ opacity: 0.7 }}>
+          ({params.do_sample ? "sampling" : "greedy"},{" "}
+          {params.max_new_tokens} tokens
+          {draft && !params.do_sample && ", draft model"})
+        </span>
+      </summary>
+
+      <div style={{ marginTop: 12 }}>
+        {(Object.keys(PRESETS) as PresetName[]).map((name) => (
+          <button
+            key={name}
+            onClick={() => applyPreset(name)}
+            disabled={disabled}
+            style={buttonStyle(disabled)}
+          >
+            {name[0].toUpperCase() + name.slice(1)}
+          </button>
+        ))}
+        <button
+          onClick={onReset}
+          disabled={disabled}
+          style={buttonStyle(disabled)}
+        >
+          Model defaults
+        </button>
+      </div>
+
+      <label style={{ display: "block", marginBottom: 12 }}>
+        <input
+          type="checkbox"
+          checked={params.do_sample}
+          onChange={(e) => onChange({ ...params, do_sample: e.target.checked })}
+          disabled={disabled}
+        />{" "}
+        Sample (off = greedy decoding)
+      </label>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))",
+          gap: 12,
+        }}
+      >
+        {NUMERIC_FIELDS.map((f) => (
+          <label
+            key={f.key}
+            style={{ opacity: f.sampling && !params.do_sample ? 0.5 : 1 }}
+          >
+            {f.label}
+            <input
+              type="number"
+              value={params[f.key] ?? ""}
+              step={f.step}
+              min={f.min}
+              max={f.max}
+              onChange={(e) => setNumber(f.key, e.target.value)}
+              disabled={disabled}
+              style={inputStyle}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        Stop sequences (one per line)
+        <textarea
+          value={(params.stop ?? []).join("\n")}
+          onChange={(e) =>
+            onChange({
+              ...params,
+              // Blank lines are kept while typing; the worker skips them
+              stop: e.target.value === "" ? [] : e.target.value.split("\n"),
+            })
+          }
+          rows={2}
+          disabled={disabled}
+          style={inputStyle}
+        />
+      </label>
+
+      {drafts.length > 0 && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))",
+            gap: 12,
+            marginTop: 12,
+          }}
+        >
+          <label>
+            Draft model (speculative)
+            <select
+              value={draft?.slug ?? ""}
+              onChange={(e) =>
+                onChange(
+                  withDraft(
+                    params,
+                    drafts.find((d) => d.slug === e.target.value) ?? null
+                  )
+                )
+              }
+              disabled={disabled}
+              style={inputStyle}
+            >
+              <option value="">None</option>
+              {drafts.map((d) => (
+                <option key={d.slug} value={d.slug}>
+                  {getModel(d.slug)?.name ?? d.slug}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={{ opacity: draft ? 1 : 0.5 }}>
+            Drafted tokens per pass
+            <input
+              type="number"
+              value={params.num_assistant_tokens ?? ""}
+              step={1}
+              min={1}
+              max={16}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value >= 1) {
+                  onChange({
+                    ...params,
+                    num_assistant_tokens: Math.floor(value),
+                  });
+                }
+              }}
+              disabled={disabled || !draft}
+              style={inputStyle}
+            />
+          </label>
+        </div>
+      )}
+      {draft && params.do_sample && (
+        <div style={{ marginTop: 8, fontSize: 14, color: "#b60" }}>
+          The draft model only speeds up greedy decoding; turn sampling off
+          to use it.
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { buttonStyle, fieldStyle } from "@/components/styles";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  entryPrompt,
+  entryReply,
+  matchesQuery,
+  useHistory,
+  type HistoryAction,
+  type HistoryEntry,
+} from "@/lib/history";
+import { getModel } from "@/lib/models";
+
+function smallButton(disabled = false): CSSProperties {
+  return { ...buttonStyle(disabled), padding: "2px 8px", marginBottom: 0 };
+}
+
+function preview(text: string, max = 80): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat || "(empty)";
+}
+
+/** Past runs from every model page, newest first. */
+export default function HistorySidebar({
+  disabled = false,
+  onOpen,
+}: {
+  disabled?: boolean;
+  onOpen: (entry: HistoryEntry, action: HistoryAction) => void;
+}) {
+  const { entries, error } = useHistory();
+  const [query, setQuery] = useState("");
+
+  const shown = entries.filter((e) => matchesQuery(e, query));
+
+  return (
+    <aside style={{ width: 280, flexShrink: 0 }}>
+      <h2 style={{ fontSize: 18, marginTop: 0 }}>History</h2>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search prompts and outputs..."
+        style={{ ...fieldStyle, marginBottom: 8 }}
+      />
+      {error && (
+        <div style={{ fontSize: 12, color: "#c33" }}>
+          History unavailable: {error}
+        </div>
+      )}
+      {!error && shown.length === 0 && (
+        <div style={{ fontSize: 14, opacity: 0.7 }}>
+          {entries.length === 0 ? "No runs yet." : "No matches."}
+        </div>
+      )}
+
+      <div style={{ maxHeight: "70vh", overflowY: "auto" }}>
+        {shown.map((e) => (
+          <details
+            key={e.id}
+            style={{ borderTop: "1px solid #ddd", padding: "6px 0" }}
+          >
+            <summary style={{ cursor: "pointer", fontSize: 14 }}>
+              {preview(entryPrompt(e), 60)}
+              <div style={{ fontSize: 12, opacity: 0.7 }}>
+                {getModel(e.slug)?.name ?? e.slug} ·{" "}
+                {new Date(e.createdAt).toLocaleString()}
+                {e.cancelled && " · stopped"}
+              </div>
+            </summary>
+            <div
+              style={{
+                fontSize: 13,
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+                margin: "6px 0",
+              }}
+            >
+              {preview(entryReply(e), 400)}
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 6 }}>
+              {e.dtype} on {e.device} · {e.stats.tokens} tokens ·{" "}
+              {e.stats.tokensPerSecond.toFixed(1)} tok/s
+            </div>
+            <button
+              onClick={() => onOpen(e, "rerun")}
+              disabled={disabled}
+              style={smallButton(disabled)}
+            >
+              Re-run
+            </button>
+            <button
+              onClick={() => onOpen(e, "fork")}
+              disabled={disabled}
+              style={smallButton(disabled)}
+            >
+              Fork
+            </button>
+            <button
+              onClick={() => void deleteHistoryEntry(e.id)}
+              style={smallButton()}
+            >
+              Delete
+            </button>
+          </details>
+        ))}
+      </div>
+
+      {entries.length > 0 && (
+        <button
+          onClick={() => {
+            if (window.confirm("Delete all history?")) void clearHistory();
+          }}
+          style={{ ...buttonStyle(), marginTop: 8 }}
+        >
+          Clear history
+        </button>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+import BackendSelector from "@/components/BackendSelector";
+import ChatPanel from "@/components/ChatPanel";
+import CompletionPanel from "@/components/CompletionPanel";
+import DocumentsPanel from "@/components/DocumentsPanel";
+import DownloadProgress from "@/components/DownloadProgress";
+import GenerationSettings from "@/components/GenerationSettings";
+import HistorySidebar from "@/components/HistorySidebar";
+import StructuredOutputPanel from "@/components/StructuredOutputPanel";
+import TemplatesPanel from "@/components/TemplatesPanel";
+import ToolsPanel from "@/components/ToolsPanel";
+import { boxStyle } from "@/components/styles";
+import {
+  getHistoryEntry,
+  type HistoryAction,
+  type HistoryEntry,
+  type OpenedEntry,
+} from "@/lib/history";
+import { useBackendChoice } from "@/lib/inference/backend";
+import type { GenerateInput } from "@/lib/inference/protocol";
+import { useInference } from "@/lib/inference/useInference";
+import { getModel, type ModelConfig } from "@/lib/models";
+import { useGenerationParams } from "@/lib/params";
+import { DEFAULT_RETRIEVAL, type Retrieval } from "@/lib/rag";
+import {
+  DEFAULT_STRUCTURED_OUTPUT,
+  useStructuredOutput,
+  type StructuredOutput,
+} from "@/lib/structured/useStructuredOutput";
+import {
+  DEFAULT_TOOL_SETTINGS,
+  enabledTools,
+  type ToolSettings,
+} from "@/lib/tools/tools";
+
+export default function ModelPlayground({ slug }: { slug: string }) {
+  // The server route has already 404'd unknown slugs.
+  const model = getModel(slug) as ModelConfig;
+
+  const { backend, setBackend, dtypes, resolved } = useBackendChoice(model);
+  const inference = useInference(model, resolved ? backend : null);
+  const { params, setParams, resetParams } = useGenerationParams(model);
+  const [retrieval, setRetrieval] = useState<Retrieval>(DEFAULT_RETRIEVAL);
+  const [tools, setTools] = useState<ToolSettings>(DEFAULT_TOOL_SETTINGS);
+  const [structured, setStructured] = useState<StructuredOutput>(
+    DEFAULT_STRUCTURED_OUTPUT
+  );
+  // The panels generate through this; it is `inference` while JSON mode is off
+  const json = useStructuredOutput(model, inference, structured);
+  const router = useRouter();
+  // `key` remounts the panel so it starts over from the opened entry.
+  const [opened, setOpened] = useState<(OpenedEntry & { key: number }) | null>(
+    null
+  );
+  // A filled prompt template, loaded into the panel the same way
+  const [preset, setPreset] = useState<{
+    input: GenerateInput;
+    key: number;
+  } | null>(null);
+
+  // Entries from another model arrive as `?history=<id>&action=<action>`.
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const id = Number(query.get("history"));
+    if (!id) return;
+    const action: HistoryAction =
+      query.get("action") === "rerun" ? "rerun" : "fork";
+    window.history.replaceState(null, "", window.location.pathname);
+    void getHistoryEntry(id).then((entry) => {
+      if (entry?.slug === model.slug) {
+        setPreset(null);
+        setOpened({ entry, action, key: Date.now() });
+      }
+    });
+  }, [model.slug]);
+
+  function onOpen(entry: HistoryEntry, action: HistoryAction): void {
+    if (entry.slug !== model.slug) {
+      router.push(
+        `/models/${entry.slug}?history=${entry.id}&action=${action}`
+      );
+      return;
+    }
+    setPreset(null);
+    setOpened({ entry, action, key: Date.now() });
+  }
+
+  function onUseTemplate(input: GenerateInput): void {
+    setOpened(null);
+    setPreset({ input, key: Date.now() });
+  }
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        gap: 24,
+        maxWidth: 1220,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <main style={{ flex: 1, minWidth: 0 }}>
+        <h1 style={{ fontSize: 28, marginBottom: 8 }}>{model.name}</h1>
+        <p style={{ marginTop: 0, marginBottom: 4 }}>{model.description}</p>
+        <p style={{ marginTop: 0, opacity: 0.8 }}>
+          Model: <code>{model.id}</code>
+          {inference.spec && (
+            <>
+              {" "}
+              · Running <code>{inference.spec.dtype}</code> on{" "}
+              <code>{inference.spec.device}</code>
+            </>
+          )}
+          {" · "}
+          <Link href={`/models/${model.slug}/inspect`}>Token inspector</Link>
+        </p>
+
+        <BackendSelector
+          backend={backend}
+          dtypes={dtypes}
+          onChange={setBackend}
+          disabled={!resolved || inference.isGenerating}
+        />
+
+        <div style={{ ...boxStyle, whiteSpace: "pre-wrap" }}>
+          <strong>Status:</strong> {inference.status}
+          {inference.notice && (
+            <div style={{ marginTop: 8, fontSize: 14, color: "#b60" }}>
+              {inference.notice}
+            </div>
+          )}
+          {inference.isLoading && (
+            <DownloadProgress downloads={inference.downloads} />
+          )}
+        </div>
+
+        <GenerationSettings
+          params={params}
+          onChange={setParams}
+          onReset={resetParams}
+          disabled={inference.isGenerating}
+          model={model}
+        />
+
+        {model.mode === "chat" && (
+          <>
+            <DocumentsPanel
+              retrieval={retrieval}
+              onChange={setRetrieval}
+              disabled={inference.isGenerating}
+            />
+            <ToolsPanel
+              settings={tools}
+              onChange={setTools}
+              disabled={inference.isGenerating}
+            />
+          </>
+        )}
+
+        <TemplatesPanel
+          model={model}
+          inference={inference}
+          onUse={onUseTemplate}
+          disabled={inference.isGenerating}
+        />
+
+        <StructuredOutputPanel
+          settings={structured}
+          onChange={setStructured}
+          report={json.report}
+          schemaError={json.schemaError}
+          disabled={inference.isGenerating}
+        />
+
+        {model.mode === "chat" ? (
+          <ChatPanel
+            key={(opened ?? preset)?.key}
+            model={model}
+            inference={json.inference}
+            params={params}
+            opened={opened}
+            preset={preset?.input}
+            retrieval={retrieval}
+            tools={enabledTools(tools)}
+          />
+        ) : (
+          <CompletionPanel
+            key={(opened ?? preset)?.key}
+            model={model}
+            inference={json.inference}
+            params={params}
+            opened={opened}
+            preset={preset?.input}
+          />
+        )}
+      </main>
+      <HistorySidebar onOpen={onOpen} disabled={inference.isGenerating} />
+    </div>
+  );
+}
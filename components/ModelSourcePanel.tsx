@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { getInferenceClient } from "@/lib/inference/client";
+import { stored, useStored } from "@/lib/local-store";
+import {
+  DEFAULT_MODEL_SOURCE,
+  loadModelSource,
+  normalizeSource,
+  saveModelSource,
+  type ModelSource,
+  type SourceMode,
+} from "@/lib/sources";
+
+const MODES: Array<{ value: SourceMode; label: string }> = [
+  { value: "hub", label: "Hugging Face Hub (or mirror)" },
+  { value: "prefer-local", label: "Local directory first, then the Hub" },
+  { value: "local-only", label: "Local directory only (offline)" },
+];
+
+const sourceStore = stored({
+  load: loadModelSource,
+  save: saveModelSource,
+  fallback: DEFAULT_MODEL_SOURCE,
+});
+
+/** App-wide choice of where model files are fetched from. */
+export default function ModelSourcePanel({
+  onSaved,
+}: {
+  onSaved: (source: ModelSource) => void;
+}) {
+  const saved = useStored(sourceStore);
+  // Unsaved edits; `null` shows the saved source
+  const [edits, setDraft] = useState<ModelSource | null>(null);
+  const draft = edits ?? saved;
+
+  async function onSave(): Promise<void> {
+    const next = normalizeSource(draft);
+    sourceStore.set(next);
+    await getInferenceClient().configure(next);
+    setDraft(null);
+    onSaved(next);
+  }
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  return (
+    <details style={boxStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Model source · {MODES.find((m) => m.value === saved.mode)?.label}
+      </summary>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label>
+          Fetch model files from
+          <select
+            value={draft.mode}
+            onChange={(e) =>
+              setDraft({ ...draft, mode: e.target.value as SourceMode })
+            }
+            style={fieldStyle}
+          >
+            {MODES.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label>
+          Local model directory (path served by this app, or a URL)
+          <input
+            value={draft.localPath}
+            onChange={(e) =>
+              setDraft({ ...draft, localPath: e.target.value })
+            }
+            placeholder={DEFAULT_MODEL_SOURCE.localPath}
+            style={fieldStyle}
+          />
+        </label>
+        <div style={{ opacity: 0.7, marginTop: 4 }}>
+          One folder per repo, laid out as on the Hub, e.g.{" "}
+          <code>public/models/HuggingFaceTB/SmolLM2-135M-Instruct/onnx/</code>
+          {" "}for the default directory.
+        </div>
+      </div>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label>
+          Hub host or mirror
+          <input
+            value={draft.remoteHost}
+            onChange={(e) =>
+              setDraft({ ...draft, remoteHost: e.target.value })
+            }
+            placeholder={DEFAULT_MODEL_SOURCE.remoteHost}
+            style={fieldStyle}
+          />
+        </label>
+      </div>
+
+      <div style={{ marginTop: 12 }}>
+        <button
+          onClick={() => void onSave()}
+          disabled={!dirty}
+          style={buttonStyle(!dirty)}
+        >
+          Save
+        </button>
+        <span style={{ fontSize: 13, opacity: 0.7 }}>
+          Models already loaded keep running; later loads use the new source.
+        </span>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import { useSyncExternalStore } from "react";
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/** A badge shown while the browser reports no network connection. */
+export default function OfflineIndicator() {
+  const online = useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
+  if (online) return null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: "fixed",
+        bottom: 16,
+        left: 16,
+        zIndex: 10,
+        padding: "8px 12px",
+        borderRadius: 10,
+        background: "#171717",
+        color: "#fff",
+        fontSize: 13,
+        fontFamily: "system-ui",
+      }}
+    >
+      Offline · only{" "}
+      <Link href="/cache" style={{ color: "#fff" }}>
+        downloaded models
+      </Link>{" "}
+      can load
+    </div>
+  );
+}
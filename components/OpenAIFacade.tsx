@@ -0,0 +1,10 @@
+"use client";
+
+import { useEffect } from "react";
+import { installOpenAIFacade } from "@/lib/openai/facade";
+
+/** Serves the local `/v1` API on every page while mounted. */
+export default function OpenAIFacade() {
+  useEffect(() => installOpenAIFacade(), []);
+  return null;
+}
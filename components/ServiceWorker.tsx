@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers `public/sw.js`, which makes the app installable and usable
+ * offline. Production only: in development it would serve stale bundles.
+ */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((err: unknown) => {
+      console.warn("Service worker registration failed", err);
+    });
+  }, []);
+  return null;
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { boxStyle, fieldStyle } from "@/components/styles";
+import type {
+  StructuredOutput,
+  StructuredReport,
+  StructuredStrategy,
+} from "@/lib/structured/useStructuredOutput";
+
+const inputStyle: CSSProperties = {
+  width: 60,
+  padding: 4,
+  borderRadius: 8,
+  border: "1px solid #ddd",
+};
+
+const preStyle: CSSProperties = {
+  margin: "8px 0 0",
+  padding: 10,
+  background: "#f7f7f7",
+  borderRadius: 8,
+  fontSize: 13,
+  whiteSpace: "pre-wrap",
+};
+
+/**
+ * JSON mode controls: the schema, how to enforce it, and whether the last
+ * output parsed and validated.
+ */
+export default function StructuredOutputPanel({
+  settings,
+  onChange,
+  report,
+  schemaError,
+  disabled = false,
+}: {
+  settings: StructuredOutput;
+  onChange: (next: StructuredOutput) => void;
+  report: StructuredReport | null;
+  schemaError: string | null;
+  disabled?: boolean;
+}) {
+  return (
+    <details style={boxStyle} open={settings.enabled}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Structured output (JSON){settings.enabled && " · on"}
+      </summary>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label style={{ marginRight: 16 }}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) =>
+              onChange({ ...settings, enabled: e.target.checked })
+            }
+            disabled={disabled}
+          />{" "}
+          Reply in JSON
+        </label>
+        <label style={{ marginRight: 16 }}>
+          Enforce by{" "}
+          <select
+            value={settings.strategy}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                strategy: e.target.value as StructuredStrategy,
+              })
+            }
+            disabled={disabled}
+          >
+            <option value="constrained">constrained decoding</option>
+            <option value="retry">validate and retry</option>
+          </select>
+        </label>
+        {settings.strategy === "retry" && (
+          <label>
+            Max attempts{" "}
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={settings.maxAttempts}
+              onChange={(e) =>
+                onChange({
+                  ...settings,
+                  maxAttempts: Math.min(
+                    10,
+                    Math.max(1, Number(e.target.value))
+                  ),
+                })
+              }
+              disabled={disabled}
+              style={inputStyle}
+            />
+          </label>
+        )}
+      </div>
+
+      <label style={{ display: "block", marginTop: 12, fontSize: 14 }}>
+        JSON Schema
+        <textarea
+          value={settings.schemaText}
+          onChange={(e) =>
+            onChange({ ...settings, schemaText: e.target.value })
+          }
+          rows={10}
+          spellCheck={false}
+          style={{ ...fieldStyle, fontFamily: "monospace", fontSize: 13 }}
+          disabled={disabled}
+        />
+      </label>
+      <div style={{ fontSize: 13, opacity: 0.7 }}>
+        Constrained decoding checks every vocabulary token at each step, which
+        slows large-vocabulary models; validate and retry generates freely and
+        re-asks with the errors. String <code>pattern</code>s aren&apos;t
+        enforced while decoding, only checked afterwards.
+      </div>
+      {schemaError && (
+        <div style={{ marginTop: 8, fontSize: 14, color: "#c33" }}>
+          Invalid schema, JSON mode is off: {schemaError}
+        </div>
+      )}
+
+      {report && (
+        <div style={{ marginTop: 12, fontSize: 14 }}>
+          <strong style={{ color: report.valid ? "#2a2" : "#c33" }}>
+            {report.valid ? "Valid" : "Invalid"}
+          </strong>{" "}
+          after {report.attempts} attempt{report.attempts === 1 ? "" : "s"}
+          {!report.valid &&
+            report.strategy === "constrained" &&
+            report.finishReason === "length" && (
+              <div style={{ marginTop: 4, opacity: 0.8 }}>
+                Generation hit the max new tokens limit before the value was
+                complete; raise it and try again.
+              </div>
+            )}
+          {report.errors.length > 0 && (
+            <pre style={{ ...preStyle, color: "#c33" }}>
+              {report.errors.join("\n")}
+            </pre>
+          )}
+          {report.value !== undefined && (
+            <pre style={preStyle}>{JSON.stringify(report.value, null, 2)}</pre>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { describeError } from "@/lib/inference/errors";
+import type { GenerateInput } from "@/lib/inference/protocol";
+import type { Inference } from "@/lib/inference/useInference";
+import type { ModelConfig } from "@/lib/models";
+import {
+  renderTemplate,
+  templateVariables,
+  useTemplates,
+} from "@/lib/templates";
+
+/** Readable stand-in for the preview until the tokenizer can render it. */
+function formatInput(input: GenerateInput): string {
+  return typeof input === "string"
+    ? input
+    : input.map((m) => `${m.role}:\n${m.content}`).join("\n\n");
+}
+
+/**
+ * Fills a saved prompt template for this model: a field per `{{variable}}`,
+ * a preview of the prompt exactly as the model will see it (chat template
+ * included) with its token count, and "Use" to load it into the panel
+ * below. Templates written for another model are not offered.
+ */
+export default function TemplatesPanel({
+  model,
+  inference,
+  onUse,
+  disabled = false,
+}: {
+  model: ModelConfig;
+  inference: Inference;
+  onUse: (input: GenerateInput) => void;
+  disabled?: boolean;
+}) {
+  const templates = useTemplates().filter(
+    (t) => t.model === null || t.model === model.slug
+  );
+  const [templateId, setTemplateId] = useState("");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<{
+    text: string;
+    tokens: number;
+  } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+  const variables = template ? templateVariables(template) : [];
+  const input = template ? renderTemplate(template, values, model.mode) : null;
+  // Compared by value: `input` is rebuilt on every render
+  const inputKey = input === null ? "" : JSON.stringify(input);
+
+  const { spec, renderPrompt } = inference;
+  useEffect(() => {
+    if (!spec || !inputKey) return;
+    let stale = false;
+    const timer = setTimeout(() => {
+      renderPrompt(JSON.parse(inputKey) as GenerateInput)
+        .then((rendered) => {
+          if (stale) return;
+          setPreview(rendered);
+          setPreviewError(null);
+        })
+        .catch((err: unknown) => {
+          if (stale) return;
+          setPreview(null);
+          setPreviewError(describeError(err));
+        });
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [spec, inputKey, renderPrompt]);
+
+  return (
+    <details style={boxStyle}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Prompt templates{template && ` · ${template.name}`}
+      </summary>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        {templates.length === 0 ? (
+          <p style={{ marginTop: 0 }}>
+            No templates for this model yet.{" "}
+            <Link href="/templates">Create one</Link>
+          </p>
+        ) : (
+          <label style={{ display: "block", marginBottom: 8 }}>
+            Template{" "}
+            <select
+              value={templateId}
+              onChange={(e) => {
+                setTemplateId(e.target.value);
+                setPreview(null);
+              }}
+              style={{ ...fieldStyle, width: "auto" }}
+            >
+              <option value="">Choose a template...</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>{" "}
+            <Link href="/templates">Manage templates</Link>
+          </label>
+        )}
+
+        {template?.description && (
+          <p style={{ marginTop: 0, opacity: 0.8 }}>{template.description}</p>
+        )}
+
+        {variables.map((name) => (
+          <label key={name} style={{ display: "block", marginBottom: 8 }}>
+            <code>{name}</code>
+            <textarea
+              value={values[name] ?? ""}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, [name]: e.target.value }))
+              }
+              rows={2}
+              style={fieldStyle}
+            />
+          </label>
+        ))}
+
+        {template && (
+          <>
+            <div style={{ marginBottom: 4 }}>
+              Rendered prompt
+              {preview && ` · ${preview.tokens} tokens`}
+              {!spec && " (as the model sees it once it has loaded)"}
+            </div>
+            <pre
+              style={{
+                ...boxStyle,
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+                fontSize: 13,
+                maxHeight: 300,
+                overflow: "auto",
+                background: "rgba(0,0,0,0.03)",
+              }}
+            >
+              {preview?.text ?? (input && formatInput(input))}
+            </pre>
+            {previewError && (
+              <div style={{ color: "#c33", marginBottom: 8 }}>
+                {previewError}
+              </div>
+            )}
+            <button
+              onClick={() => {
+                if (input !== null) onUse(input);
+              }}
+              disabled={disabled}
+              style={buttonStyle(disabled)}
+            >
+              Use this prompt
+            </button>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
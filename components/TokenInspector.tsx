@@ -0,0 +1,333 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import BackendSelector from "@/components/BackendSelector";
+import DownloadProgress from "@/components/DownloadProgress";
+import { GenerationStatsLine } from "@/components/GenerationOutput";
+import GenerationSettings from "@/components/GenerationSettings";
+import { boxStyle, buttonStyle, fieldStyle } from "@/components/styles";
+import { useBackendChoice } from "@/lib/inference/backend";
+import type {
+  GenerateInput,
+  InspectedToken,
+  TokenInspection,
+  TokenPiece,
+} from "@/lib/inference/protocol";
+import { useInference } from "@/lib/inference/useInference";
+import { getModel, type ModelConfig } from "@/lib/models";
+import { useGenerationParams } from "@/lib/params";
+
+type ColorBy = "probability" | "entropy";
+
+/** What is on screen: a run, with any branches spliced in. */
+type Trace = TokenInspection & {
+  /** Steps whose token was picked by hand rather than sampled. */
+  forced: number[];
+};
+
+/** Red for 0, green for 1. */
+function heat(value: number): string {
+  return `hsl(${Math.round(120 * Math.min(1, Math.max(0, value)))}, 70%, 82%)`;
+}
+
+function formatProb(p: number): string {
+  return p >= 0.01 || p === 0 ? `${(p * 100).toFixed(1)}%` : p.toExponential(1);
+}
+
+/** Whitespace made visible, so a token that is just a space can be seen. */
+function showText(text: string): string {
+  return text.replace(/ /g, "·").replace(/\n/g, "↵\n");
+}
+
+function TokenChip({ token }: { token: TokenPiece }) {
+  return (
+    <span
+      title={`id ${token.id} · ${token.piece}`}
+      style={{
+        display: "inline-block",
+        margin: "0 2px 4px 0",
+        padding: "1px 4px",
+        borderRadius: 4,
+        background: "#eef",
+        fontFamily: "monospace",
+        fontSize: 13,
+        whiteSpace: "pre-wrap",
+      }}
+    >
+      {showText(token.text)}
+      <sub style={{ opacity: 0.5, marginLeft: 2 }}>{token.id}</sub>
+    </span>
+  );
+}
+
+/**
+ * Shows how a model tokenized the prompt and, for each generated token, how
+ * likely it was, what else was likely and how uncertain the model was.
+ * Clicking a token lists its alternatives; picking one regenerates from
+ * there, continuing the exact prompt text with that token's text (which is
+ * re-tokenized, so a boundary can occasionally split differently).
+ */
+export default function TokenInspector({ slug }: { slug: string }) {
+  // The server route has already 404'd unknown slugs.
+  const model = getModel(slug) as ModelConfig;
+
+  const { backend, setBackend, dtypes, resolved } = useBackendChoice(model);
+  const inference = useInference(model, resolved ? backend : null);
+  const { params, setParams, resetParams } = useGenerationParams(model);
+
+  const [prompt, setPrompt] = useState(model.defaultPrompt);
+  const [topK, setTopK] = useState(5);
+  const [colorBy, setColorBy] = useState<ColorBy>("probability");
+  const [trace, setTrace] = useState<Trace | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const busy = !inference.isReady;
+
+  async function generate(
+    input: GenerateInput
+  ): Promise<TokenInspection | null> {
+    const result = await inference.generate(input, {
+      ...params,
+      inspect_top_k: topK,
+    });
+    return result?.inspection ?? null;
+  }
+
+  async function onRun(): Promise<void> {
+    const input: GenerateInput =
+      model.mode === "chat" ? [{ role: "user", content: prompt }] : prompt;
+    setSelected(null);
+    const inspection = await generate(input);
+    if (inspection) setTrace({ ...inspection, forced: [] });
+  }
+
+  /** Keeps the steps before `index`, forces `alternative`, samples on. */
+  async function onBranch(
+    index: number,
+    alternative: TokenPiece
+  ): Promise<void> {
+    if (!trace) return;
+    const kept = trace.steps.slice(0, index);
+    const at = trace.steps[index];
+    const prefix = kept.map((s) => s.text).join("") + alternative.text;
+    const inspection = await generate(trace.promptText + prefix);
+    if (!inspection) return;
+    const forcedStep: InspectedToken = {
+      ...alternative,
+      prob: at.top.find((t) => t.id === alternative.id)?.prob ?? 0,
+      entropy: at.entropy,
+      top: at.top,
+    };
+    setTrace({
+      ...trace,
+      steps: [...kept, forcedStep, ...inspection.steps],
+      forced: [...trace.forced.filter((i) => i < index), index],
+    });
+    setSelected(index);
+  }
+
+  const steps = trace?.steps ?? [];
+  const maxEntropy = Math.max(1, ...steps.map((s) => s.entropy));
+  const shade = (s: InspectedToken) =>
+    heat(colorBy === "probability" ? s.prob : 1 - s.entropy / maxEntropy);
+  const step = selected !== null ? steps[selected] : null;
+
+  return (
+    <main
+      style={{
+        maxWidth: 900,
+        margin: "40px auto",
+        padding: 16,
+        fontFamily: "system-ui",
+      }}
+    >
+      <p>
+        <Link href={`/models/${model.slug}`}>← {model.name}</Link>
+      </p>
+      <h1 style={{ fontSize: 28, marginBottom: 8 }}>Token inspector</h1>
+      <p style={{ marginTop: 0, opacity: 0.8 }}>
+        Model: <code>{model.id}</code>
+        {inference.spec && (
+          <>
+            {" "}
+            · Running <code>{inference.spec.dtype}</code> on{" "}
+            <code>{inference.spec.device}</code>
+          </>
+        )}
+      </p>
+
+      <BackendSelector
+        backend={backend}
+        dtypes={dtypes}
+        onChange={setBackend}
+        disabled={!resolved || inference.isGenerating}
+      />
+
+      <div style={{ ...boxStyle, whiteSpace: "pre-wrap" }}>
+        <strong>Status:</strong> {inference.status}
+        {inference.error && (
+          <div style={{ marginTop: 8, color: "#c33" }}>{inference.error}</div>
+        )}
+        {inference.isLoading && (
+          <DownloadProgress downloads={inference.downloads} />
+        )}
+      </div>
+
+      <GenerationSettings
+        params={params}
+        onChange={setParams}
+        onReset={resetParams}
+        disabled={inference.isGenerating}
+      />
+
+      <label style={{ display: "block", marginBottom: 8 }}>
+        {model.mode === "chat" ? "User message" : "Prompt"}
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={4}
+          style={fieldStyle}
+          disabled={busy}
+        />
+      </label>
+
+      <div style={{ marginBottom: 12, fontSize: 14 }}>
+        <label>
+          Alternatives per token{" "}
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={topK}
+            onChange={(e) =>
+              setTopK(Math.min(20, Math.max(1, Number(e.target.value) || 1)))
+            }
+            style={{ ...fieldStyle, width: 70 }}
+          />
+        </label>{" "}
+        <label>
+          Color by{" "}
+          <select
+            value={colorBy}
+            onChange={(e) => setColorBy(e.target.value as ColorBy)}
+            style={{ ...fieldStyle, width: "auto" }}
+          >
+            <option value="probability">probability (red = unlikely)</option>
+            <option value="entropy">entropy (red = uncertain)</option>
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={() => void onRun()}
+        disabled={busy}
+        style={buttonStyle(busy)}
+      >
+        {inference.isGenerating ? "Generating..." : "Generate and inspect"}
+      </button>
+      {inference.isGenerating && (
+        <button onClick={inference.cancel} style={buttonStyle()}>
+          Stop
+        </button>
+      )}
+      <GenerationStatsLine
+        stats={inference.stats}
+        stopped={inference.stopped}
+        finishReason={inference.finishReason}
+      />
+
+      {trace && (
+        <>
+          <h2 style={{ fontSize: 18 }}>
+            Prompt · {trace.prompt.length} tokens
+          </h2>
+          <div>
+            {trace.prompt.map((t, i) => (
+              <TokenChip key={i} token={t} />
+            ))}
+          </div>
+
+          <h2 style={{ fontSize: 18 }}>Output · {steps.length} tokens</h2>
+          <div
+            style={{
+              whiteSpace: "pre-wrap",
+              lineHeight: 1.8,
+              fontFamily: "monospace",
+              fontSize: 14,
+            }}
+          >
+            {steps.map((s, i) => (
+              <span
+                key={i}
+                onClick={() => setSelected(i)}
+                title={
+                  `${formatProb(s.prob)} · ${s.entropy.toFixed(2)} bits · ` +
+                  `id ${s.id}`
+                }
+                style={{
+                  cursor: "pointer",
+                  background: shade(s),
+                  outline:
+                    i === selected
+                      ? "2px solid #333"
+                      : trace.forced.includes(i)
+                        ? "1px dashed #333"
+                        : undefined,
+                }}
+              >
+                {s.text}
+              </span>
+            ))}
+          </div>
+          <p style={{ fontSize: 13, opacity: 0.7 }}>
+            Click a token to see its alternatives. Dashed tokens were picked
+            by hand.
+          </p>
+        </>
+      )}
+
+      {step && selected !== null && (
+        <div style={boxStyle}>
+          <div style={{ marginBottom: 8 }}>
+            Token {selected + 1}: <TokenChip token={step} />{" "}
+            {formatProb(step.prob)} · entropy {step.entropy.toFixed(2)} bits
+          </div>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <tbody>
+              {step.top.map((t) => (
+                <tr key={t.id} style={{ borderTop: "1px solid #ddd" }}>
+                  <td style={{ padding: "4px 0" }}>
+                    <TokenChip token={t} />
+                  </td>
+                  <td style={{ width: "40%" }}>
+                    <div
+                      style={{
+                        width: `${Math.max(1, t.prob * 100)}%`,
+                        height: 10,
+                        borderRadius: 4,
+                        background: heat(t.prob),
+                      }}
+                    />
+                  </td>
+                  <td style={{ textAlign: "right", paddingLeft: 8 }}>
+                    {formatProb(t.prob)}
+                  </td>
+                  <td style={{ textAlign: "right", paddingTop: 16 }}>
+                    <button
+                      onClick={() => void onBranch(selected, t)}
+                      disabled={busy || t.id === step.id}
+                      style={buttonStyle(busy || t.id === step.id)}
+                    >
+                      {t.id === step.id ? "Chosen" : "Continue with this"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
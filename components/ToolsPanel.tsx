@@ -0,0 +1,109 @@
+"use client";
+
+import { boxStyle } from "@/components/styles";
+import { MAX_TOOL_CALLS, type ToolStep } from "@/lib/tools/loop";
+import { TOOLS, type ToolSettings } from "@/lib/tools/tools";
+
+function formatJson(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/** The tool calls behind a reply, in order, each with its outcome. */
+export function ToolTrace({ steps }: { steps: ToolStep[] }) {
+  return (
+    <div style={{ margin: "6px 0", fontSize: 13 }}>
+      {steps.map((step, i) => (
+        <details key={i} style={{ marginBottom: 4 }}>
+          <summary style={{ cursor: "pointer" }}>
+            <code>{step.call?.name ?? "malformed call"}</code>
+            {step.error !== undefined ? (
+              <span style={{ color: "#c33" }}> · failed</span>
+            ) : (
+              ` · ${Math.round(step.durationMs)} ms`
+            )}
+          </summary>
+          <div style={{ margin: "4px 0 8px 16px" }}>
+            {step.thought && (
+              <div style={{ fontStyle: "italic", opacity: 0.8 }}>
+                {step.thought}
+              </div>
+            )}
+            <pre style={{ whiteSpace: "pre-wrap", margin: "4px 0" }}>
+              {step.call ? formatJson(step.call.arguments) : step.raw}
+            </pre>
+            <pre
+              style={{
+                whiteSpace: "pre-wrap",
+                margin: "4px 0",
+                color: step.error !== undefined ? "#c33" : undefined,
+              }}
+            >
+              → {step.error ?? formatJson(step.result)}
+            </pre>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+/** Function-calling controls for chat pages: on/off and which tools. */
+export default function ToolsPanel({
+  settings,
+  onChange,
+  disabled = false,
+}: {
+  settings: ToolSettings;
+  onChange: (next: ToolSettings) => void;
+  disabled?: boolean;
+}) {
+  function toggle(name: string, on: boolean): void {
+    const names = on
+      ? [...settings.names, name]
+      : settings.names.filter((n) => n !== name);
+    onChange({ ...settings, names });
+  }
+
+  return (
+    <details style={boxStyle} open={settings.enabled}>
+      <summary style={{ cursor: "pointer", fontWeight: 600 }}>
+        Tools{settings.enabled && ` · ${settings.names.length} on`}
+      </summary>
+
+      <div style={{ marginTop: 12, fontSize: 14 }}>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) =>
+              onChange({ ...settings, enabled: e.target.checked })
+            }
+            disabled={disabled}
+          />{" "}
+          Let the model call tools (up to {MAX_TOOL_CALLS} per reply)
+        </label>
+      </div>
+
+      <table style={{ width: "100%", marginTop: 8, fontSize: 14 }}>
+        <tbody>
+          {TOOLS.map((tool) => (
+            <tr key={tool.name}>
+              <td style={{ verticalAlign: "top", paddingRight: 8 }}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={settings.names.includes(tool.name)}
+                    onChange={(e) => toggle(tool.name, e.target.checked)}
+                    disabled={disabled || !settings.enabled}
+                  />{" "}
+                  <code>{tool.name}</code>
+                </label>
+              </td>
+              <td style={{ opacity: 0.7 }}>{tool.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
@@ -0,0 +1,29 @@
+import type { CSSProperties } from "react";
+
+/** Inline styles shared by the model pages. */
+
+export const boxStyle: CSSProperties = {
+  padding: 12,
+  border: "1px solid #ddd",
+  borderRadius: 10,
+  marginBottom: 16,
+};
+
+export const fieldStyle: CSSProperties = {
+  width: "100%",
+  marginTop: 6,
+  padding: 10,
+  borderRadius: 10,
+  border: "1px solid #ddd",
+};
+
+export function buttonStyle(disabled = false): CSSProperties {
+  return {
+    padding: "10px 14px",
+    borderRadius: 10,
+    border: "1px solid #ddd",
+    cursor: disabled ? "not-allowed" : "pointer",
+    marginRight: 8,
+    marginBottom: 16,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Local tally for the comparison arena, kept in localStorage so it builds up
+ * across sessions. Keyed by registry slug.
+ */
+
+export type ModelTally = {
+  /** Rounds this model took part in and got a verdict. */
+  rounds: number;
+  /** Rounds where it was voted best. */
+  wins: number;
+  ratingSum: number;
+  ratingCount: number;
+};
+
+export type Tally = Record<string, ModelTally>;
+
+const STORAGE_KEY = "arena-tally";
+
+function emptyTally(): ModelTally {
+  return { rounds: 0, wins: 0, ratingSum: 0, ratingCount: 0 };
+}
+
+export function loadTally(): Tally {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return typeof raw === "object" && raw !== null ? (raw as Tally) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveTally(tally: Tally): Tally {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tally));
+  } catch {
+    // tally just won't persist
+  }
+  return tally;
+}
+
+/** One verdict per round: `winner` beat every other participant. */
+export function recordVote(
+  tally: Tally,
+  participants: string[],
+  winner: string
+): Tally {
+  const next = { ...tally };
+  for (const slug of participants) {
+    const t = { ...(next[slug] ?? emptyTally()) };
+    t.rounds += 1;
+    if (slug === winner) t.wins += 1;
+    next[slug] = t;
+  }
+  return saveTally(next);
+}
+
+/** `rating` is 1–5. */
+export function recordRating(tally: Tally, slug: string, rating: number): Tally {
+  const t = { ...(tally[slug] ?? emptyTally()) };
+  t.ratingSum += rating;
+  t.ratingCount += 1;
+  return saveTally({ ...tally, [slug]: t });
+}
+
+export function clearTally(): Tally {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+  return {};
+}
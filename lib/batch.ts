@@ -0,0 +1,297 @@
+/**
+ * Batch runs for the `/batch` page: prompt files in, one result per row
+ * out. A file is CSV with a header row or JSONL with one object per line;
+ * either way each row has a `prompt`, optionally an `id` (carried into the
+ * results), a `system` prompt for chat models and per-row overrides of the
+ * generation parameters (`max_new_tokens`, `temperature`, `top_p`, `top_k`,
+ * `repetition_penalty`, `do_sample`, `seed`, `stop`). A row with an
+ * invalid override is kept but fails with that as its error, rather than
+ * running with a different value.
+ */
+import { promptInput, withSystemPrompt } from "@/lib/chat";
+import { toCsv } from "@/lib/download";
+import {
+  generatedText,
+  type FinishReason,
+  type GenerateInput,
+  type GenerationResult,
+} from "@/lib/inference/protocol";
+import type { GenerationParams, ModelConfig } from "@/lib/models";
+
+export type BatchRow = {
+  id: string;
+  prompt: string;
+  /** Replaces the model's default system prompt (chat models only). */
+  system?: string;
+  params: Partial<GenerationParams>;
+  /** Why the row can't run (an invalid override); it fails with this. */
+  problem?: string;
+};
+
+export type BatchStatus = "pending" | "running" | "done" | "error";
+
+export type BatchResult = BatchRow & {
+  status: BatchStatus;
+  /** Generated text only: completion models' echoed prompt is cut off. */
+  output: string;
+  error: string | null;
+  finishReason: FinishReason | null;
+  tokens: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number;
+  durationMs: number;
+};
+
+type NumberParam =
+  | "max_new_tokens"
+  | "temperature"
+  | "top_p"
+  | "top_k"
+  | "repetition_penalty"
+  | "seed";
+
+/** The values each numeric override accepts, as `sanitizeParams` does. */
+const NUMBER_PARAMS: Record<
+  NumberParam,
+  { valid: (n: number) => boolean; expected: string }
+> = {
+  max_new_tokens: {
+    valid: (n) => Number.isInteger(n) && n >= 1,
+    expected: "a whole number of at least 1",
+  },
+  temperature: { valid: (n) => n >= 0, expected: "at least 0" },
+  top_p: { valid: (n) => n >= 0 && n <= 1, expected: "between 0 and 1" },
+  top_k: {
+    valid: (n) => Number.isInteger(n) && n >= 0,
+    expected: "a whole number of at least 0",
+  },
+  repetition_penalty: { valid: (n) => n > 0, expected: "above 0" },
+  seed: {
+    valid: (n) => Number.isInteger(n) && n >= 0,
+    expected: "a whole number of at least 0",
+  },
+};
+
+/**
+ * RFC 4180 fields: commas and newlines inside double quotes, `""` for a
+ * quote. Blank lines are skipped.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f !== "")) rows.push(row);
+  return rows;
+}
+
+/**
+ * Validates one row's fields; `where` prefixes error messages. A missing
+ * prompt fails the file, an invalid override only the row.
+ */
+function toRow(
+  fields: Record<string, unknown>,
+  fallbackId: string,
+  where: string
+): BatchRow {
+  const { prompt, id, system } = fields;
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    throw new Error(`${where}: "prompt" is missing or empty.`);
+  }
+  const params: Partial<GenerationParams> = {};
+  const problems: string[] = [];
+  for (const [key, { valid, expected }] of Object.entries(NUMBER_PARAMS)) {
+    const value = fields[key];
+    if (value === undefined || value === "") continue;
+    const n = typeof value === "string" ? Number(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n) || !valid(n)) {
+      problems.push(`"${key}" must be ${expected}`);
+    } else {
+      params[key as NumberParam] = n;
+    }
+  }
+  const doSample = fields.do_sample;
+  if (doSample !== undefined && doSample !== "") {
+    if (typeof doSample === "boolean") params.do_sample = doSample;
+    else if (/^(true|1)$/i.test(String(doSample))) params.do_sample = true;
+    else if (/^(false|0)$/i.test(String(doSample))) params.do_sample = false;
+    else problems.push('"do_sample" must be true or false');
+  }
+  const stop = fields.stop;
+  if (typeof stop === "string" && stop) params.stop = [stop];
+  else if (Array.isArray(stop)) {
+    params.stop = stop.filter((s): s is string => typeof s === "string");
+  }
+  return {
+    id: id === undefined || id === "" ? fallbackId : String(id),
+    prompt,
+    system: typeof system === "string" && system ? system : undefined,
+    params,
+    problem:
+      problems.length > 0 ? `${where}: ${problems.join("; ")}.` : undefined,
+  };
+}
+
+function parseCsvRows(text: string): BatchRow[] {
+  const [header, ...records] = parseCsv(text);
+  const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+  if (!columns.includes("prompt")) {
+    throw new Error('The CSV header has no "prompt" column.');
+  }
+  return records.map((record, i) =>
+    toRow(
+      Object.fromEntries(columns.map((c, j) => [c, record[j] ?? ""])),
+      String(i + 1),
+      `Row ${i + 1}`
+    )
+  );
+}
+
+function parseJsonlRows(text: string): BatchRow[] {
+  const rows: BatchRow[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Line ${i + 1}: not valid JSON.`);
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Line ${i + 1}: expected an object.`);
+    }
+    rows.push(
+      toRow(
+        value as Record<string, unknown>,
+        String(rows.length + 1),
+        `Line ${i + 1}`
+      )
+    );
+  }
+  return rows;
+}
+
+/**
+ * Rows of a prompt file; JSONL when the name ends in `.jsonl`/`.ndjson`,
+ * CSV otherwise. Throws with the offending row when a value is invalid.
+ */
+export function parseBatchFile(name: string, text: string): BatchRow[] {
+  const rows = /\.(jsonl|ndjson)$/i.test(name)
+    ? parseJsonlRows(text)
+    : parseCsvRows(text);
+  if (rows.length === 0) throw new Error("The file has no prompts.");
+  return rows;
+}
+
+/** A row not run yet; one with a `problem` has already failed. */
+export function pendingResult(row: BatchRow): BatchResult {
+  return {
+    ...row,
+    status: row.problem ? "error" : "pending",
+    output: "",
+    error: row.problem ?? null,
+    finishReason: null,
+    tokens: 0,
+    timeToFirstTokenMs: null,
+    tokensPerSecond: 0,
+    durationMs: 0,
+  };
+}
+
+/** What is sent for `row`; its `system` replaces the model's default. */
+export function batchInput(model: ModelConfig, row: BatchRow): GenerateInput {
+  if (model.mode !== "chat" || row.system === undefined) {
+    return promptInput(model, row.prompt);
+  }
+  return withSystemPrompt(row.system, [{ role: "user", content: row.prompt }]);
+}
+
+/** The page settings with `row`'s (validated) overrides. */
+export function rowParams(
+  params: GenerationParams,
+  row: BatchRow
+): GenerationParams {
+  return { ...params, ...row.params };
+}
+
+export function completedResult(
+  model: ModelConfig,
+  row: BatchRow,
+  result: GenerationResult
+): BatchResult {
+  const { finishReason, stats } = result;
+  return {
+    ...pendingResult(row),
+    status: "done",
+    output: generatedText(batchInput(model, row), result),
+    finishReason,
+    tokens: stats.tokens,
+    timeToFirstTokenMs: stats.timeToFirstTokenMs,
+    tokensPerSecond: stats.tokensPerSecond,
+    durationMs: stats.durationMs,
+  };
+}
+
+const EXPORT_COLUMNS = [
+  "id",
+  "prompt",
+  "status",
+  "output",
+  "error",
+  "finishReason",
+  "tokens",
+  "timeToFirstTokenMs",
+  "tokensPerSecond",
+  "durationMs",
+] as const;
+
+export function resultsToCsv(results: BatchResult[]): string {
+  return toCsv(
+    [...EXPORT_COLUMNS],
+    results.map((r) => EXPORT_COLUMNS.map((c) => r[c]))
+  );
+}
+
+/** One object per row, with the parameters it was run with. */
+export function resultsToJsonl(
+  results: BatchResult[],
+  params: GenerationParams
+): string {
+  return results
+    .map((r) =>
+      JSON.stringify({
+        ...Object.fromEntries(EXPORT_COLUMNS.map((c) => [c, r[c]])),
+        system: r.system,
+        params: rowParams(params, r),
+      })
+    )
+    .join("\n");
+}
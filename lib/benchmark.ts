@@ -0,0 +1,160 @@
+/**
+ * Benchmark suite definition, report format and summaries for the
+ * `/benchmark` page. Reports are plain JSON so they can be exported, shared
+ * and imported again as a baseline to diff against.
+ */
+import { toCsv } from "@/lib/download";
+import type { ModelDevice, ModelDtype } from "@/lib/models";
+
+export type BenchTarget = {
+  slug: string;
+  device: ModelDevice;
+  dtype: ModelDtype;
+};
+
+export type BenchSuite = {
+  prompts: string[];
+  repetitions: number;
+  /** Every run samples with this seed, so outputs repeat and only timing varies. */
+  seed: number;
+  max_new_tokens: number;
+};
+
+export type BenchRun = BenchTarget & {
+  promptIndex: number;
+  repetition: number;
+  /** Cold load of the target, shared by all of its runs. */
+  loadMs: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number;
+  durationMs: number;
+  tokens: number;
+  outputChars: number;
+  peakHeapBytes: number | null;
+  error: string | null;
+};
+
+export type BenchReport = {
+  version: 1;
+  createdAt: string;
+  userAgent: string;
+  suite: BenchSuite;
+  runs: BenchRun[];
+};
+
+export type BenchSummary = BenchTarget & {
+  runs: number;
+  errors: number;
+  loadMs: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number;
+  tokens: number;
+  outputChars: number;
+  peakHeapBytes: number | null;
+};
+
+export function targetKey(t: BenchTarget): string {
+  return `${t.slug}|${t.device}|${t.dtype}`;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Per-target means over successful runs (peak heap is the max). */
+export function summarize(report: BenchReport): BenchSummary[] {
+  const groups = new Map<string, BenchRun[]>();
+  for (const run of report.runs) {
+    const key = targetKey(run);
+    groups.set(key, [...(groups.get(key) ?? []), run]);
+  }
+
+  return [...groups.values()].map((runs) => {
+    const ok = runs.filter((r) => r.error === null);
+    const ttfts = ok
+      .map((r) => r.timeToFirstTokenMs)
+      .filter((v): v is number => v !== null);
+    const heaps = ok
+      .map((r) => r.peakHeapBytes)
+      .filter((v): v is number => v !== null);
+    return {
+      slug: runs[0].slug,
+      device: runs[0].device,
+      dtype: runs[0].dtype,
+      runs: runs.length,
+      errors: runs.length - ok.length,
+      loadMs: runs[0].loadMs,
+      timeToFirstTokenMs: ttfts.length > 0 ? mean(ttfts) : null,
+      tokensPerSecond: mean(ok.map((r) => r.tokensPerSecond)),
+      tokens: mean(ok.map((r) => r.tokens)),
+      outputChars: mean(ok.map((r) => r.outputChars)),
+      peakHeapBytes: heaps.length > 0 ? Math.max(...heaps) : null,
+    };
+  });
+}
+
+export type BenchDiff = {
+  current: BenchSummary;
+  previous: BenchSummary | null;
+};
+
+/** Pairs each current target with the same target in `previous`, if any. */
+export function diffReports(
+  current: BenchReport,
+  previous: BenchReport
+): BenchDiff[] {
+  const before = new Map(summarize(previous).map((s) => [targetKey(s), s]));
+  return summarize(current).map((s) => ({
+    current: s,
+    previous: before.get(targetKey(s)) ?? null,
+  }));
+}
+
+/** Relative change, e.g. `+12%`; empty when either side is missing. */
+export function formatDelta(
+  current: number | null,
+  previous: number | null
+): string {
+  if (current === null || previous === null || previous === 0) return "";
+  const pct = ((current - previous) / previous) * 100;
+  return `${pct >= 0 ? "+" : ""}${pct.toFixed(0)}%`;
+}
+
+const CSV_COLUMNS: Array<keyof BenchRun> = [
+  "slug",
+  "device",
+  "dtype",
+  "promptIndex",
+  "repetition",
+  "loadMs",
+  "timeToFirstTokenMs",
+  "tokensPerSecond",
+  "durationMs",
+  "tokens",
+  "outputChars",
+  "peakHeapBytes",
+  "error",
+];
+
+export function reportToCsv(report: BenchReport): string {
+  return toCsv(
+    CSV_COLUMNS,
+    report.runs.map((run) => CSV_COLUMNS.map((c) => run[c]))
+  );
+}
+
+/** Throws with a readable message when `json` isn't a benchmark report. */
+export function parseReport(json: string): BenchReport {
+  const raw: unknown = JSON.parse(json);
+  if (
+    typeof raw !== "object" ||
+    raw === null ||
+    (raw as BenchReport).version !== 1 ||
+    !Array.isArray((raw as BenchReport).runs)
+  ) {
+    throw new Error("Not a benchmark report (expected version 1 JSON).");
+  }
+  return raw as BenchReport;
+}
@@ -0,0 +1,100 @@
+/**
+ * Read/delete access to the Cache Storage bucket transformers.js downloads
+ * into (`env.useBrowserCache`). Entries are keyed by their Hub URL, e.g.
+ * `https://huggingface.co/Xenova/distilgpt2/resolve/main/onnx/model_quantized.onnx`,
+ * or, for files served from the local model directory, by their URL there
+ * (`/models/Xenova/distilgpt2/onnx/model_quantized.onnx`).
+ */
+
+export const MODEL_CACHE_NAME = "transformers-cache";
+
+export type CachedFile = { url: string; file: string; bytes: number };
+
+export type CachedModel = {
+  /** Hub repo id, e.g. `Xenova/distilgpt2`. */
+  id: string;
+  files: CachedFile[];
+  bytes: number;
+};
+
+export type StorageUsage = { usage: number; quota: number };
+
+const RESOLVE_PATH = /^\/(.+?)\/resolve\/[^/]+\/(.+)$/;
+const LOCAL_PATH = /^([^/]+\/[^/]+)\/(.+)$/;
+
+function parseCacheUrl(
+  url: string,
+  localPath: string
+): { id: string; file: string } | null {
+  try {
+    const localBase = new URL(localPath, location.href).href;
+    const match = url.startsWith(localBase)
+      ? LOCAL_PATH.exec(decodeURIComponent(url.slice(localBase.length)))
+      : RESOLVE_PATH.exec(decodeURIComponent(new URL(url).pathname));
+    return match ? { id: match[1], file: match[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function responseSize(res: Response): Promise<number> {
+  const header = Number(res.headers.get("content-length"));
+  if (Number.isFinite(header) && header > 0) return header;
+  return (await res.blob()).size;
+}
+
+function isCacheAvailable(): boolean {
+  return typeof caches !== "undefined";
+}
+
+/** `localPath` is the model source's local directory (see `lib/sources`). */
+export async function listCachedModels(
+  localPath: string
+): Promise<CachedModel[]> {
+  if (!isCacheAvailable()) return [];
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const byId = new Map<string, CachedModel>();
+
+  for (const req of await cache.keys()) {
+    const parsed = parseCacheUrl(req.url, localPath);
+    if (!parsed) continue;
+    const res = await cache.match(req);
+    const bytes = res ? await responseSize(res) : 0;
+
+    const model = byId.get(parsed.id) ?? {
+      id: parsed.id,
+      files: [],
+      bytes: 0,
+    };
+    model.files.push({ url: req.url, file: parsed.file, bytes });
+    model.bytes += bytes;
+    byId.set(parsed.id, model);
+  }
+
+  return [...byId.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Removes every cached file of repo `id`; returns how many were deleted. */
+export async function deleteCachedModel(
+  id: string,
+  localPath: string
+): Promise<number> {
+  if (!isCacheAvailable()) return 0;
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  let deleted = 0;
+  for (const req of await cache.keys()) {
+    const parsed = parseCacheUrl(req.url, localPath);
+    if (parsed?.id === id && (await cache.delete(req))) {
+      deleted += 1;
+    }
+  }
+  return deleted;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,57 @@
+/**
+ * Browser feature detection for the inference backends. TypeScript's DOM lib
+ * has no WebGPU types yet, so only the bits we touch are declared here.
+ */
+
+type GPUAdapterLike = { features: { has(feature: string): boolean } };
+type NavigatorGPU = {
+  gpu?: { requestAdapter(): Promise<GPUAdapterLike | null> };
+};
+
+export type Capabilities = {
+  webgpu: boolean;
+  /** `shader-f16`, required to run fp16 / q4f16 weights on WebGPU. */
+  shaderF16: boolean;
+  /** Why WebGPU is unavailable, for user-facing messages. */
+  reason: string | null;
+};
+
+async function detect(): Promise<Capabilities> {
+  const { gpu } = navigator as Navigator & NavigatorGPU;
+  if (!gpu) {
+    return {
+      webgpu: false,
+      shaderF16: false,
+      reason: "this browser does not expose navigator.gpu",
+    };
+  }
+  try {
+    const adapter = await gpu.requestAdapter();
+    if (!adapter) {
+      return {
+        webgpu: false,
+        shaderF16: false,
+        reason: "no suitable GPU adapter was found",
+      };
+    }
+    return {
+      webgpu: true,
+      shaderF16: adapter.features.has("shader-f16"),
+      reason: null,
+    };
+  } catch (err: unknown) {
+    return {
+      webgpu: false,
+      shaderF16: false,
+      reason: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+let detected: Promise<Capabilities> | null = null;
+
+/** Detected once per page load (browser only). */
+export function detectCapabilities(): Promise<Capabilities> {
+  if (!detected) detected = detect();
+  return detected;
+}
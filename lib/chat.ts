@@ -0,0 +1,60 @@
+import type { ChatMessage, GenerateInput } from "@/lib/inference/protocol";
+import type { ModelConfig } from "@/lib/models";
+
+export type FitResult = {
+  /** What to send: the system prompt (if any) plus the newest turns. */
+  messages: ChatMessage[];
+  /** Prompt tokens for `messages`, chat template included. */
+  tokens: number;
+  /** How many of the oldest messages were left out. */
+  dropped: number;
+};
+
+/**
+ * A single prompt in the shape `model` expects: one user turn (after the
+ * model's default system prompt) for chat models, raw text otherwise.
+ */
+export function promptInput(model: ModelConfig, prompt: string): GenerateInput {
+  if (model.mode !== "chat") return prompt;
+  return withSystemPrompt(model.systemPrompt ?? "", [
+    { role: "user", content: prompt },
+  ]);
+}
+
+export function withSystemPrompt(
+  systemPrompt: string,
+  messages: ChatMessage[]
+): ChatMessage[] {
+  const trimmed = systemPrompt.trim();
+  return trimmed
+    ? [{ role: "system", content: trimmed }, ...messages]
+    : [...messages];
+}
+
+/**
+ * Sliding-window trim: drops the oldest user/assistant turns until the prompt
+ * plus `reserve` (the reply budget) fits in `contextWindow`. The system
+ * prompt and the newest message are always kept, and the kept history always
+ * starts on a user turn so templates that expect alternation stay valid.
+ */
+export async function fitToContext(
+  messages: ChatMessage[],
+  countTokens: (messages: ChatMessage[]) => Promise<number>,
+  contextWindow: number,
+  reserve: number
+): Promise<FitResult> {
+  const system = messages[0]?.role === "system" ? [messages[0]] : [];
+  let turns = messages.slice(system.length);
+  let dropped = 0;
+  let tokens = await countTokens([...system, ...turns]);
+
+  while (tokens + reserve > contextWindow && turns.length > 1) {
+    let cut = 1;
+    while (cut < turns.length - 1 && turns[cut].role !== "user") cut += 1;
+    turns = turns.slice(cut);
+    dropped += cut;
+    tokens = await countTokens([...system, ...turns]);
+  }
+
+  return { messages: [...system, ...turns], tokens, dropped };
+}
@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * The iframe side of the embed API: answers `EmbedRequest`s from allowed
+ * host origins using the shared inference worker. Hosts other than this
+ * app's own origin must be listed in `NEXT_PUBLIC_EMBED_ORIGINS`
+ * (comma-separated, or `*` for any); messages from anyone else are dropped.
+ */
+import {
+  loadWithFallback,
+  preferredBackend,
+  type LoadOutcome,
+} from "@/lib/inference/backend";
+import { getInferenceClient } from "@/lib/inference/client";
+import { toInferenceError } from "@/lib/inference/errors";
+import {
+  applyProgress,
+  totalProgress,
+  type DownloadState,
+} from "@/lib/inference/progress";
+import { toModelSpec } from "@/lib/inference/protocol";
+import { getModel, MODELS, type ModelConfig } from "@/lib/models";
+import { sanitizeParams } from "@/lib/params";
+import {
+  EMBED_CHANNEL,
+  isEmbedMessage,
+  type Body,
+  type EmbedModel,
+  type EmbedRequest,
+  type EmbedResponse,
+} from "./protocol";
+
+type Reply = (body: Body<EmbedResponse>) => void;
+
+const loaded = new Map<string, Promise<LoadOutcome>>();
+/** Worker request ids of running generations, by `runKey`. */
+const running = new Map<string, number>();
+
+/** Host request ids are only unique per origin. */
+function runKey(origin: string, id: number): string {
+  return `${origin} ${id}`;
+}
+
+export function allowedOrigins(): string[] {
+  return (process.env.NEXT_PUBLIC_EMBED_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim())
+    .filter((o) => o !== "");
+}
+
+function isAllowed(origin: string): boolean {
+  const allowed = allowedOrigins();
+  return (
+    origin === window.location.origin ||
+    allowed.includes("*") ||
+    allowed.includes(origin)
+  );
+}
+
+function toEmbedModel(m: ModelConfig): EmbedModel {
+  return {
+    slug: m.slug,
+    id: m.id,
+    name: m.name,
+    mode: m.mode,
+    downloadMB: m.size.downloadMB,
+  };
+}
+
+function findModel(slug: string): ModelConfig {
+  const model = getModel(slug);
+  if (!model) throw new Error(`Unknown model "${slug}".`);
+  return model;
+}
+
+/**
+ * Loads once per model, on the backend chosen on its model page. Progress
+ * goes to whoever triggered the load; later callers just wait.
+ */
+function ensureLoaded(
+  model: ModelConfig,
+  onProgress: (loaded: number, total: number) => void
+): Promise<LoadOutcome> {
+  let entry = loaded.get(model.slug);
+  if (!entry) {
+    let downloads: DownloadState = {};
+    entry = preferredBackend(model)
+      .then((backend) =>
+        loadWithFallback(
+          getInferenceClient(),
+          model,
+          toModelSpec(model, backend),
+          (p) => {
+            downloads = applyProgress(downloads, p);
+            const { loaded, total } = totalProgress(downloads);
+            onProgress(loaded, total);
+          }
+        )
+      );
+    loaded.set(model.slug, entry);
+    entry.catch(() => loaded.delete(model.slug));
+  }
+  return entry;
+}
+
+async function handle(
+  req: EmbedRequest,
+  origin: string,
+  reply: Reply
+): Promise<void> {
+  const client = getInferenceClient();
+
+  switch (req.type) {
+    case "hello":
+      reply({ type: "ready", models: MODELS.map(toEmbedModel) });
+      return;
+
+    case "load": {
+      const { spec, notice } = await ensureLoaded(
+        findModel(req.model),
+        (loaded, total) => reply({ type: "progress", loaded, total })
+      );
+      reply({
+        type: "loaded",
+        device: spec.device,
+        dtype: spec.dtype,
+        notice,
+      });
+      return;
+    }
+
+    case "generate": {
+      const model = findModel(req.model);
+      const { spec } = await ensureLoaded(model, (loaded, total) =>
+        reply({ type: "progress", loaded, total })
+      );
+      const params = sanitizeParams(
+        { ...model.generation, ...req.params },
+        model.generation
+      );
+      const handle = client.generate(
+        spec,
+        req.input,
+        params,
+        req.stream ? (text) => reply({ type: "token", text }) : undefined
+      );
+      const key = runKey(origin, req.id);
+      running.set(key, handle.requestId);
+      try {
+        const result = await handle.result;
+        reply({ type: "generated", ...result });
+      } finally {
+        running.delete(key);
+      }
+      return;
+    }
+
+    case "cancel": {
+      const target = running.get(runKey(origin, req.target));
+      if (target !== undefined) client.cancel(target);
+      reply({ type: "cancelled" });
+      return;
+    }
+  }
+}
+
+/**
+ * Starts answering embed requests; returns a function that stops. Replies
+ * go only to the window and origin that asked.
+ */
+export function serveEmbedApi(): () => void {
+  const onMessage = (event: MessageEvent) => {
+    if (!isEmbedMessage(event.data) || !event.source) return;
+    if (!isAllowed(event.origin)) {
+      console.warn(`Ignoring embed request from ${event.origin}`);
+      return;
+    }
+    const req = event.data as EmbedRequest;
+    const source = event.source as Window;
+    const reply: Reply = (body) =>
+      source.postMessage(
+        { ...body, channel: EMBED_CHANNEL, id: req.id } as EmbedResponse,
+        event.origin
+      );
+
+    handle(req, event.origin, reply).catch((err: unknown) => {
+      const { message, kind, remediation } = toInferenceError(err);
+      reply({ type: "error", message, kind, remediation });
+    });
+  };
+
+  window.addEventListener("message", onMessage);
+  return () => window.removeEventListener("message", onMessage);
+}
@@ -0,0 +1,81 @@
+/**
+ * Messages between a host page (`sdk.ts`) and the `/embed` iframe
+ * (`frame.ts`). Every message carries `channel` so unrelated `postMessage`
+ * traffic is ignored, and every reply echoes the `id` of the request it
+ * answers.
+ *
+ * Only types are shared, so a host bundling the SDK pulls in no model code.
+ */
+import type { InferenceErrorKind } from "@/lib/inference/errors";
+import type {
+  GenerateInput,
+  GenerationResult,
+} from "@/lib/inference/protocol";
+import type {
+  GenerationParams,
+  ModelDevice,
+  ModelDtype,
+  ModelMode,
+} from "@/lib/models";
+
+export const EMBED_CHANNEL = "in-browser-llm/embed@1";
+
+export type EmbedModel = {
+  /** Registry slug; what `load` and `generate` expect. */
+  slug: string;
+  id: string;
+  name: string;
+  mode: ModelMode;
+  downloadMB: number;
+};
+
+export type EmbedRequest = { channel: typeof EMBED_CHANNEL; id: number } & (
+  | { type: "hello" }
+  | { type: "load"; model: string }
+  | {
+      type: "generate";
+      model: string;
+      input: GenerateInput;
+      /** Overrides on top of the model's registry defaults. */
+      params?: Partial<GenerationParams>;
+      /** Send `token` messages while generating. */
+      stream?: boolean;
+    }
+  /** `target` is the id of the generate request to stop. */
+  | { type: "cancel"; target: number }
+);
+
+export type EmbedResponse = { channel: typeof EMBED_CHANNEL; id: number } & (
+  | { type: "ready"; models: EmbedModel[] }
+  | { type: "progress"; loaded: number; total: number }
+  | {
+      type: "loaded";
+      device: ModelDevice;
+      dtype: ModelDtype;
+      notice: string | null;
+    }
+  | { type: "token"; text: string }
+  | ({ type: "generated" } & GenerationResult)
+  | { type: "cancelled" }
+  | {
+      type: "error";
+      message: string;
+      kind: InferenceErrorKind;
+      /** What the user can do about it, when known. */
+      remediation: string | null;
+    }
+);
+
+/** Distributes `Omit` over a union. */
+export type Body<T> = T extends unknown ? Omit<T, "channel" | "id"> : never;
+
+export function isEmbedMessage(
+  data: unknown
+): data is { channel: string; id: number } {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { channel?: unknown }).channel === EMBED_CHANNEL &&
+    typeof (data as { id?: unknown }).id === "number"
+  );
+}
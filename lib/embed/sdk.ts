@@ -0,0 +1,299 @@
+/**
+ * Host-page SDK for the `/embed` iframe. Depends on nothing but types, so
+ * a host can copy or bundle it without transformers.js.
+ *
+ *   const { client } = createEmbed(document.body, "https://llm.example/embed");
+ *   await client.ready();
+ *   for await (const text of client.stream("SmolLM2-135M-Instruct", messages)) …
+ */
+import type {
+  GenerateInput,
+  GenerationResult,
+} from "@/lib/inference/protocol";
+import type { GenerationParams } from "@/lib/models";
+import {
+  EMBED_CHANNEL,
+  isEmbedMessage,
+  type Body,
+  type EmbedModel,
+  type EmbedRequest,
+  type EmbedResponse,
+} from "./protocol";
+
+export type { EmbedModel } from "./protocol";
+
+type ErrorMessage = Extract<EmbedResponse, { type: "error" }>;
+
+/** A request the frame couldn't serve, classified like the app's own. */
+export class EmbedError extends Error {
+  readonly kind: ErrorMessage["kind"];
+  readonly remediation: string | null;
+
+  constructor({ message, kind, remediation }: ErrorMessage) {
+    super(message);
+    this.name = "EmbedError";
+    this.kind = kind;
+    this.remediation = remediation;
+  }
+}
+
+type LoadedMessage = Extract<EmbedResponse, { type: "loaded" }>;
+
+export type EmbedLoadResult = Omit<LoadedMessage, "channel" | "id" | "type">;
+
+// Messages that settle a request; the rest are intermediate callbacks
+type FinalResponse = Extract<
+  EmbedResponse,
+  { type: "ready" | "loaded" | "generated" | "cancelled" }
+>;
+
+type Callbacks = {
+  onProgress?: (loaded: number, total: number) => void;
+  onToken?: (text: string) => void;
+};
+
+type Pending = Callbacks & {
+  resolve: (msg: FinalResponse) => void;
+  reject: (err: Error) => void;
+};
+
+export type EmbedGenerateHandle = {
+  /** Pass to `cancel` to stop this generation. */
+  id: number;
+  result: Promise<GenerationResult>;
+};
+
+/** Also iterable: yields each piece of new text as it is generated. */
+export type EmbedStreamHandle = EmbedGenerateHandle & AsyncIterable<string>;
+
+export class EmbedClient {
+  private readonly pending = new Map<number, Pending>();
+  private nextId = 1;
+  private readonly listener = (e: MessageEvent) => this.onMessage(e);
+
+  /**
+   * `origin` defaults to the frame's `src` origin; replies from any other
+   * origin are ignored.
+   */
+  constructor(
+    private readonly frame: HTMLIFrameElement,
+    private readonly origin: string = new URL(frame.src).origin
+  ) {
+    window.addEventListener("message", this.listener);
+  }
+
+  /**
+   * Resolves with the registered models once the frame answers. Pings until
+   * then, since the frame only listens after its page has hydrated.
+   */
+  ready(timeoutMs = 15_000): Promise<EmbedModel[]> {
+    return new Promise((resolve, reject) => {
+      const ids: number[] = [];
+      const cleanup = () => {
+        clearInterval(interval);
+        clearTimeout(timeout);
+        for (const id of ids) this.pending.delete(id);
+      };
+      const ping = () => {
+        const { id, done } = this.send({ type: "hello" });
+        ids.push(id);
+        done.then((msg) => {
+          cleanup();
+          if (msg.type === "ready") resolve(msg.models);
+        }, reject);
+      };
+      const interval = setInterval(ping, 250);
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error(`No answer from the embed frame at ${this.origin}.`));
+      }, timeoutMs);
+      ping();
+    });
+  }
+
+  load(
+    model: string,
+    onProgress?: Callbacks["onProgress"]
+  ): Promise<EmbedLoadResult> {
+    return this.send({ type: "load", model }, { onProgress }).done.then(
+      (msg) => {
+        if (msg.type !== "loaded") {
+          throw new Error(`Unexpected "${msg.type}" reply to load`);
+        }
+        return { device: msg.device, dtype: msg.dtype, notice: msg.notice };
+      }
+    );
+  }
+
+  /** Loads `model` if needed, then resolves with the full output. */
+  generate(
+    model: string,
+    input: GenerateInput,
+    params?: Partial<GenerationParams>
+  ): EmbedGenerateHandle {
+    const { id, done } = this.send({
+      type: "generate",
+      model,
+      input,
+      params,
+    });
+    return { id, result: done.then(toResult) };
+  }
+
+  stream(
+    model: string,
+    input: GenerateInput,
+    params?: Partial<GenerationParams>
+  ): EmbedStreamHandle {
+    const queue: string[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+
+    const { id, done } = this.send(
+      { type: "generate", model, input, params, stream: true },
+      {
+        onToken: (text) => {
+          queue.push(text);
+          wake?.();
+        },
+      }
+    );
+    const result = done.then(toResult);
+    const finish = () => {
+      finished = true;
+      wake?.();
+    };
+    result.then(finish, finish);
+
+    async function* tokens(): AsyncGenerator<string> {
+      while (true) {
+        const next = queue.shift();
+        if (next !== undefined) {
+          yield next;
+        } else if (finished) {
+          // Surfaces a failed generation to the loop
+          await result;
+          return;
+        } else {
+          await new Promise<void>((r) => (wake = r));
+          wake = null;
+        }
+      }
+    }
+
+    return { id, result, [Symbol.asyncIterator]: tokens };
+  }
+
+  /**
+   * Stops a running generation. Its `result` still resolves, with the partial
+   * text and `cancelled: true`.
+   */
+  cancel(id: number): Promise<void> {
+    return this.send({ type: "cancel", target: id }).done.then(() => undefined);
+  }
+
+  /** Stops listening and rejects anything still pending. */
+  destroy(): void {
+    window.removeEventListener("message", this.listener);
+    for (const p of this.pending.values()) {
+      p.reject(new Error("Embed client destroyed"));
+    }
+    this.pending.clear();
+  }
+
+  private send(
+    body: Body<EmbedRequest>,
+    callbacks: Callbacks = {}
+  ): { id: number; done: Promise<FinalResponse> } {
+    const id = this.nextId++;
+    const done = new Promise<FinalResponse>((resolve, reject) => {
+      const target = this.frame.contentWindow;
+      if (!target) {
+        reject(new Error("The embed frame is not attached to a document."));
+        return;
+      }
+      this.pending.set(id, { resolve, reject, ...callbacks });
+      target.postMessage(
+        { ...body, channel: EMBED_CHANNEL, id } as EmbedRequest,
+        this.origin
+      );
+    });
+    return { id, done };
+  }
+
+  private onMessage(e: MessageEvent): void {
+    if (e.origin !== this.origin || e.source !== this.frame.contentWindow) {
+      return;
+    }
+    if (!isEmbedMessage(e.data)) return;
+    const msg = e.data as EmbedResponse;
+    const p = this.pending.get(msg.id);
+    if (!p) return;
+
+    switch (msg.type) {
+      case "progress":
+        p.onProgress?.(msg.loaded, msg.total);
+        return;
+      case "token":
+        p.onToken?.(msg.text);
+        return;
+      case "ready":
+      case "loaded":
+      case "generated":
+      case "cancelled":
+        this.pending.delete(msg.id);
+        p.resolve(msg);
+        return;
+      case "error":
+        this.pending.delete(msg.id);
+        p.reject(new EmbedError(msg));
+        return;
+    }
+  }
+}
+
+function toResult(msg: FinalResponse): GenerationResult {
+  if (msg.type !== "generated") {
+    throw new Error(`Unexpected "${msg.type}" reply to generate`);
+  }
+  return {
+    text: msg.text,
+    messages: msg.messages,
+    tokenIds: msg.tokenIds,
+    finishReason: msg.finishReason,
+    stats: msg.stats,
+    cancelled: msg.cancelled,
+    inspection: msg.inspection,
+    speculative: msg.speculative,
+  };
+}
+
+/**
+ * Appends a hidden `/embed` iframe (or a visible chat widget when `model`
+ * is given) to `container` and returns a client for it.
+ */
+export function createEmbed(
+  container: HTMLElement,
+  src: string,
+  options: { model?: string; style?: Partial<CSSStyleDeclaration> } = {}
+): { frame: HTMLIFrameElement; client: EmbedClient } {
+  const url = new URL(src, window.location.href);
+  if (options.model) url.searchParams.set("model", options.model);
+
+  const frame = document.createElement("iframe");
+  frame.src = url.href;
+  frame.title = "In-browser LLM";
+  if (options.model) {
+    Object.assign(frame.style, {
+      width: "100%",
+      height: "480px",
+      border: "1px solid #ddd",
+      borderRadius: "10px",
+      ...options.style,
+    });
+  } else {
+    frame.style.display = "none";
+  }
+  container.appendChild(frame);
+  return { frame, client: new EmbedClient(frame, url.origin) };
+}
@@ -0,0 +1,239 @@
+/**
+ * Eval suites for the `/eval` page: test cases, how each one is scored and
+ * the reports a run produces. Every case names one scorer, which decides
+ * what its `expected` text means (an answer, a substring, a pattern, a JSON
+ * Schema or a reference answer).
+ */
+import type { BenchTarget } from "@/lib/benchmark";
+import {
+  parseJsonOutput,
+  validateJson,
+  type JsonSchema,
+} from "@/lib/structured/schema";
+
+export type ScorerKind =
+  | "exact"
+  | "contains"
+  | "regex"
+  | "json-schema"
+  | "similarity";
+
+export const SCORERS: Record<
+  ScorerKind,
+  { label: string; expected: string }
+> = {
+  exact: { label: "Exact match", expected: "Expected answer" },
+  contains: { label: "Contains", expected: "Text the answer must contain" },
+  regex: { label: "Regex", expected: "Pattern the answer must match" },
+  "json-schema": {
+    label: "JSON Schema valid",
+    expected: "JSON Schema the answer must satisfy",
+  },
+  similarity: {
+    label: "Embedding similarity",
+    expected: "Reference answer",
+  },
+};
+
+export type EvalCase = {
+  id: string;
+  prompt: string;
+  scorer: ScorerKind;
+  expected: string;
+};
+
+export type EvalSuite = {
+  version: 1;
+  name: string;
+  cases: EvalCase[];
+  max_new_tokens: number;
+  /** Case-insensitive exact, contains and regex scoring. */
+  ignoreCase: boolean;
+  /** Cosine similarity a `similarity` case needs to pass. */
+  similarityThreshold: number;
+};
+
+export type CaseScore = {
+  passed: boolean;
+  /** 1 or 0, except for similarity, where it is the cosine. */
+  score: number;
+  /** Why it failed, or the measured similarity. */
+  detail: string;
+};
+
+export type CaseResult = CaseScore & {
+  caseId: string;
+  prompt: string;
+  scorer: ScorerKind;
+  expected: string;
+  output: string;
+  /** Set when generation itself failed; the case then counts as failed. */
+  error: string | null;
+  tokens: number;
+  durationMs: number;
+};
+
+/** One suite run on one target. */
+export type EvalReport = {
+  id?: number;
+  createdAt: number;
+  suiteName: string;
+  target: BenchTarget;
+  max_new_tokens: number;
+  results: CaseResult[];
+};
+
+/** Normalized sentence embeddings, one per text. */
+export type Embed = (texts: string[]) => Promise<number[][]>;
+
+function normalize(text: string, ignoreCase: boolean): string {
+  const collapsed = text.trim().replace(/\s+/g, " ");
+  return ignoreCase ? collapsed.toLowerCase() : collapsed;
+}
+
+function verdict(passed: boolean, detail = ""): CaseScore {
+  return { passed, score: passed ? 1 : 0, detail };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Scores `output` against `testCase`. Exact match and contains compare
+ * with surrounding whitespace trimmed and runs of whitespace collapsed.
+ * `embed` is only called for similarity cases.
+ */
+export async function scoreCase(
+  testCase: EvalCase,
+  output: string,
+  suite: EvalSuite,
+  embed: Embed
+): Promise<CaseScore> {
+  const { expected, scorer } = testCase;
+  switch (scorer) {
+    case "exact": {
+      const passed =
+        normalize(output, suite.ignoreCase) ===
+        normalize(expected, suite.ignoreCase);
+      return verdict(passed, passed ? "" : "Answer differs");
+    }
+    case "contains": {
+      const passed = normalize(output, suite.ignoreCase).includes(
+        normalize(expected, suite.ignoreCase)
+      );
+      return verdict(passed, passed ? "" : `Missing "${expected.trim()}"`);
+    }
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expected, suite.ignoreCase ? "i" : "");
+      } catch (err: unknown) {
+        return verdict(false, `Invalid pattern: ${(err as Error).message}`);
+      }
+      const passed = pattern.test(output);
+      return verdict(passed, passed ? "" : `No match for /${expected}/`);
+    }
+    case "json-schema": {
+      let schema: JsonSchema;
+      try {
+        schema = JSON.parse(expected) as JsonSchema;
+      } catch {
+        return verdict(false, "The expected schema is not valid JSON");
+      }
+      const parsed = parseJsonOutput(output);
+      if (!parsed.ok) return verdict(false, `Not JSON: ${parsed.error}`);
+      const errors = validateJson(parsed.value, schema);
+      return verdict(errors.length === 0, errors.join("\n"));
+    }
+    case "similarity": {
+      const [a, b] = await embed([expected, output]);
+      const score = dot(a, b);
+      return {
+        passed: score >= suite.similarityThreshold,
+        score,
+        detail:
+          `Similarity ${score.toFixed(2)} ` +
+          `(needs ${suite.similarityThreshold.toFixed(2)})`,
+      };
+    }
+  }
+}
+
+export function passRate(report: EvalReport): number {
+  if (report.results.length === 0) return 0;
+  const passed = report.results.filter((r) => r.passed).length;
+  return passed / report.results.length;
+}
+
+export type CaseChange = "fixed" | "broken" | "same" | "new";
+
+export type CaseComparison = {
+  current: CaseResult;
+  baseline: CaseResult | null;
+  change: CaseChange;
+};
+
+/** Pairs each case of `current` with the same case id in `baseline`. */
+export function compareReports(
+  current: EvalReport,
+  baseline: EvalReport | null
+): CaseComparison[] {
+  const before = new Map(baseline?.results.map((r) => [r.caseId, r]) ?? []);
+  return current.results.map((r) => {
+    const b = before.get(r.caseId) ?? null;
+    let change: CaseChange = "same";
+    if (!b) change = "new";
+    else if (r.passed && !b.passed) change = "fixed";
+    else if (!r.passed && b.passed) change = "broken";
+    return { current: r, baseline: b, change };
+  });
+}
+
+export type DiffPart = { kind: "same" | "added" | "removed"; text: string };
+
+/**
+ * Word-level diff from `before` to `after` (longest common subsequence of
+ * words, whitespace kept with the word before it).
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\S+\s*|\s+/g) ?? [];
+  // lcs[i][j]: common length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i].trim() === b[j].trim()
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
@@ -0,0 +1,180 @@
+"use client";
+
+/**
+ * Where evals live: the suite being edited in localStorage (and in JSON
+ * files, to share it), finished reports in IndexedDB so runs can be
+ * compared later.
+ */
+import {
+  SCORERS,
+  type EvalCase,
+  type EvalReport,
+  type EvalSuite,
+  type ScorerKind,
+} from "@/lib/eval/scorers";
+import {
+  changeFeed,
+  database,
+  objectStore,
+  useLiveList,
+} from "@/lib/idb";
+import { stored, useStored } from "@/lib/local-store";
+
+const SUITE_KEY = "eval-suite";
+const DB_NAME = "llm-evals";
+const DB_VERSION = 1;
+const STORE = "reports";
+
+export const DEFAULT_SUITE: EvalSuite = {
+  version: 1,
+  name: "Smoke test",
+  max_new_tokens: 48,
+  ignoreCase: true,
+  similarityThreshold: 0.7,
+  cases: [
+    {
+      id: "capital",
+      prompt: "What is the capital of France? Answer in one word.",
+      scorer: "contains",
+      expected: "Paris",
+    },
+    {
+      id: "arithmetic",
+      prompt: "What is 12 + 30? Reply with the number only.",
+      scorer: "regex",
+      expected: "\\b42\\b",
+    },
+    {
+      id: "sky",
+      prompt: "In one sentence, why is the sky blue?",
+      scorer: "similarity",
+      expected:
+        "Air molecules scatter blue sunlight more than red light, " +
+        "so the sky looks blue.",
+    },
+  ],
+};
+
+function isCase(x: unknown): x is EvalCase {
+  if (typeof x !== "object" || x === null) return false;
+  const { id, prompt, scorer, expected } = x as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    typeof prompt === "string" &&
+    typeof expected === "string" &&
+    typeof scorer === "string" &&
+    Object.hasOwn(SCORERS, scorer)
+  );
+}
+
+/** Throws with a readable message when `json` isn't an eval suite. */
+export function parseSuite(json: string): EvalSuite {
+  const raw: unknown = JSON.parse(json);
+  const suite = raw as Partial<EvalSuite> | null;
+  if (
+    typeof suite !== "object" ||
+    suite === null ||
+    suite.version !== 1 ||
+    !Array.isArray(suite.cases) ||
+    !suite.cases.every(isCase)
+  ) {
+    throw new Error("Not an eval suite (expected version 1 JSON).");
+  }
+  const { name, max_new_tokens, ignoreCase, similarityThreshold } = suite;
+  // Settings that are missing or of the wrong type fall back to defaults
+  return {
+    version: 1,
+    name: typeof name === "string" ? name : DEFAULT_SUITE.name,
+    cases: suite.cases,
+    max_new_tokens:
+      Number.isInteger(max_new_tokens) && (max_new_tokens as number) >= 1
+        ? (max_new_tokens as number)
+        : DEFAULT_SUITE.max_new_tokens,
+    ignoreCase:
+      typeof ignoreCase === "boolean" ? ignoreCase : DEFAULT_SUITE.ignoreCase,
+    similarityThreshold:
+      typeof similarityThreshold === "number" &&
+      Number.isFinite(similarityThreshold)
+        ? similarityThreshold
+        : DEFAULT_SUITE.similarityThreshold,
+  };
+}
+
+function readSuite(): EvalSuite {
+  try {
+    const raw = localStorage.getItem(SUITE_KEY);
+    return raw ? parseSuite(raw) : DEFAULT_SUITE;
+  } catch {
+    return DEFAULT_SUITE;
+  }
+}
+
+function writeSuite(suite: EvalSuite): void {
+  try {
+    localStorage.setItem(SUITE_KEY, JSON.stringify(suite));
+  } catch {
+    // suite just won't persist
+  }
+}
+
+const suiteStore = stored({
+  load: readSuite,
+  save: writeSuite,
+  fallback: DEFAULT_SUITE,
+});
+
+export function saveSuite(suite: EvalSuite): void {
+  suiteStore.set(suite);
+}
+
+/** The suite being edited, kept current. */
+export function useSuite(): EvalSuite {
+  return useStored(suiteStore);
+}
+
+/** A new case id that isn't used in `suite` yet. */
+export function nextCaseId(suite: EvalSuite): string {
+  const ids = new Set(suite.cases.map((c) => c.id));
+  let n = suite.cases.length + 1;
+  while (ids.has(`case-${n}`)) n++;
+  return `case-${n}`;
+}
+
+export function newCase(suite: EvalSuite, scorer: ScorerKind): EvalCase {
+  return { id: nextCaseId(suite), prompt: "", scorer, expected: "" };
+}
+
+const openDb = database(DB_NAME, DB_VERSION, (db) => {
+  const store = db.createObjectStore(STORE, {
+    keyPath: "id",
+    autoIncrement: true,
+  });
+  store.createIndex("createdAt", "createdAt");
+});
+const withStore = objectStore(openDb, STORE);
+const changes = changeFeed();
+
+export async function saveReport(report: EvalReport): Promise<number> {
+  const id = await withStore("readwrite", (s) => s.add(report));
+  changes.notify();
+  return id as number;
+}
+
+/** Every saved report, newest first. */
+export async function listReports(): Promise<EvalReport[]> {
+  const reports = await withStore<EvalReport[]>("readonly", (s) =>
+    s.index("createdAt").getAll()
+  );
+  return reports.reverse();
+}
+
+export async function deleteReport(id: number): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id));
+  changes.notify();
+}
+
+/** Saved reports, kept current as runs are added or deleted. */
+export function useEvalReports() {
+  const { items: reports, error } = useLiveList(changes, listReports);
+  return { reports, error };
+}
@@ -0,0 +1,169 @@
+"use client";
+
+/**
+ * Local run history in IndexedDB, shared by every model page. Each entry is
+ * one generation: what was sent, with which settings and backend, and what
+ * came back. Chat turns share a `conversationId` so a thread can be told
+ * apart from one-off prompts.
+ */
+import {
+  changeFeed,
+  database,
+  objectStore,
+  useLiveList,
+} from "@/lib/idb";
+import type {
+  ChatMessage,
+  GenerateInput,
+  GenerationResult,
+  GenerationStats,
+  ModelSpec,
+} from "@/lib/inference/protocol";
+import type {
+  GenerationParams,
+  ModelConfig,
+  ModelDevice,
+  ModelDtype,
+  ModelMode,
+} from "@/lib/models";
+
+const DB_NAME = "llm-history";
+const DB_VERSION = 1;
+const STORE = "runs";
+
+export type HistoryEntry = {
+  id: number;
+  slug: string;
+  modelId: string;
+  mode: ModelMode;
+  createdAt: number;
+  /** Set for chat turns; every turn of one conversation shares it. */
+  conversationId: string | null;
+  /** The prompt, or the full (untrimmed) chat history including the system prompt. */
+  input: GenerateInput;
+  params: GenerationParams;
+  device: ModelDevice;
+  dtype: ModelDtype;
+  output: string;
+  stats: GenerationStats;
+  cancelled: boolean;
+};
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id">;
+
+/** What the user asked for on an entry from the sidebar. */
+export type HistoryAction = "rerun" | "fork";
+
+/** An entry handed to a model page's panel, with what to do with it. */
+export type OpenedEntry = { entry: HistoryEntry; action: HistoryAction };
+
+const openDb = database(DB_NAME, DB_VERSION, (db) => {
+  const store = db.createObjectStore(STORE, {
+    keyPath: "id",
+    autoIncrement: true,
+  });
+  store.createIndex("createdAt", "createdAt");
+});
+const withStore = objectStore(openDb, STORE);
+const changes = changeFeed();
+
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<number> {
+  const id = await withStore("readwrite", (s) => s.add(entry));
+  changes.notify();
+  return id as number;
+}
+
+export function getHistoryEntry(id: number): Promise<HistoryEntry | undefined> {
+  return withStore("readonly", (s) => s.get(id));
+}
+
+/** Every entry, newest first. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>("readonly", (s) =>
+    s.index("createdAt").getAll()
+  );
+  return entries.reverse();
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id));
+  changes.notify();
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore("readwrite", (s) => s.clear());
+  changes.notify();
+}
+
+/** Records a finished generation. Failures are logged, never thrown. */
+export function recordRun(
+  model: ModelConfig,
+  spec: ModelSpec,
+  input: GenerateInput,
+  params: GenerationParams,
+  result: GenerationResult,
+  conversationId: string | null = null
+): void {
+  addHistoryEntry({
+    slug: model.slug,
+    modelId: model.id,
+    mode: model.mode,
+    createdAt: Date.now(),
+    conversationId,
+    input,
+    params,
+    device: spec.device,
+    dtype: spec.dtype,
+    output: result.text,
+    stats: result.stats,
+    cancelled: result.cancelled,
+  }).catch((err: unknown) => console.error("Could not save history:", err));
+}
+
+/** The user's side of an entry: the prompt, or the last user message. */
+export function entryPrompt(entry: HistoryEntry): string {
+  if (typeof entry.input === "string") return entry.input;
+  const lastUser = [...entry.input].reverse().find((m) => m.role === "user");
+  return lastUser?.content ?? "";
+}
+
+/**
+ * The model's side of an entry. Completion output starts with the prompt,
+ * so that part is stripped.
+ */
+export function entryReply(entry: HistoryEntry): string {
+  if (typeof entry.input === "string" && entry.output.startsWith(entry.input)) {
+    return entry.output.slice(entry.input.length);
+  }
+  return entry.output;
+}
+
+/** Splits a chat entry's input back into system prompt and turns. */
+export function splitChatInput(input: ChatMessage[]): {
+  systemPrompt: string;
+  messages: ChatMessage[];
+} {
+  const system = input.find((m) => m.role === "system");
+  return {
+    systemPrompt: system?.content ?? "",
+    messages: input.filter((m) => m.role !== "system"),
+  };
+}
+
+export function matchesQuery(entry: HistoryEntry, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const text =
+    typeof entry.input === "string"
+      ? entry.input
+      : entry.input.map((m) => m.content).join("\n");
+  return [entry.slug, text, entry.output].some((s) =>
+    s.toLowerCase().includes(q)
+  );
+}
+
+/** All history entries, kept current as runs are added or deleted. */
+export function useHistory() {
+  const { items: entries, error } = useLiveList(changes, listHistory);
+  return { entries, error };
+}
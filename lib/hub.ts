@@ -0,0 +1,57 @@
+/**
+ * Hugging Face Hub metadata lookups, used to offer only the quantizations a
+ * model repo actually contains.
+ */
+import type { ModelDtype } from "@/lib/models";
+
+export const HUB_HOST = "https://huggingface.co/";
+
+/** File-name suffixes transformers.js appends per dtype (see its dtypes.js). */
+export const DTYPE_SUFFIX: Record<ModelDtype, string> = {
+  fp32: "",
+  fp16: "_fp16",
+  q8: "_quantized",
+  q4: "_q4",
+  q4f16: "_q4f16",
+};
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Which of `dtypes` have a matching ONNX decoder in `files`. */
+export function dtypesInFiles(
+  files: string[],
+  dtypes: readonly ModelDtype[]
+): ModelDtype[] {
+  return dtypes.filter((dtype) => {
+    const pattern = new RegExp(
+      `^onnx/(model|decoder_model_merged)${escapeRegExp(DTYPE_SUFFIX[dtype])}\\.onnx$`
+    );
+    return files.some((f) => pattern.test(f));
+  });
+}
+
+const fileLists = new Map<string, Promise<string[] | null>>();
+
+/**
+ * Repo file paths, or `null` when the Hub can't be reached. `host` may be a
+ * mirror that also serves the Hub's `/api/models` listing.
+ */
+export function fetchRepoFiles(
+  id: string,
+  host = HUB_HOST
+): Promise<string[] | null> {
+  const url = `${host}api/models/${id}`;
+  let p = fileLists.get(url);
+  if (!p) {
+    p = fetch(url, { signal: AbortSignal.timeout(5000) })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json: { siblings?: Array<{ rfilename: string }> } | null) =>
+        json?.siblings ? json.siblings.map((s) => s.rfilename) : null
+      )
+      .catch(() => null);
+    fileLists.set(url, p);
+  }
+  return p;
+}
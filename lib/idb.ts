@@ -0,0 +1,114 @@
+"use client";
+
+/**
+ * Minimal promise wrappers over IndexedDB, shared by the local stores
+ * (history, document index, eval reports), plus the change feed that keeps
+ * their React views current.
+ */
+import { useEffect, useState } from "react";
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Resolves once every request in `tx` has been committed. */
+export function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/**
+ * Opens (and on first use creates) a database. Returns a getter that reuses
+ * one connection; a failed open is retried on the next call.
+ */
+export function database(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): () => Promise<IDBDatabase> {
+  let db: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (!db) {
+      db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(name, version);
+        req.onupgradeneeded = () => upgrade(req.result);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          db = null;
+          reject(req.error);
+        };
+      });
+    }
+    return db;
+  };
+}
+
+/**
+ * Runs one request against store `name` of the database `open` returns,
+ * in a transaction of its own.
+ */
+export function objectStore(
+  open: () => Promise<IDBDatabase>,
+  name: string
+): <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+) => Promise<T> {
+  return async (mode, fn) => {
+    const db = await open();
+    return request(fn(db.transaction(name, mode).objectStore(name)));
+  };
+}
+
+/** Tells a store's views that its contents changed. */
+export type ChangeFeed = {
+  notify: () => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function changeFeed(): ChangeFeed {
+  const listeners = new Set<() => void>();
+  return {
+    notify() {
+      for (const listener of listeners) listener();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** What `list` resolves to, read again every time `feed` notifies. */
+export function useLiveList<T>(
+  feed: ChangeFeed,
+  list: () => Promise<T[]>
+): { items: T[]; error: string | null } {
+  const [items, setItems] = useState<T[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      list()
+        .then((next) => {
+          setItems(next);
+          setError(null);
+        })
+        .catch((err: unknown) => {
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    };
+    refresh();
+    return feed.subscribe(refresh);
+  }, [feed, list]);
+
+  return { items, error };
+}
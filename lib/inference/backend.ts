@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { detectCapabilities } from "@/lib/capabilities";
+import { dtypesInFiles, fetchRepoFiles } from "@/lib/hub";
+import type { ModelConfig, ModelDevice, ModelDtype } from "@/lib/models";
+import { loadModelSource } from "@/lib/sources";
+import type { InferenceClient } from "./client";
+import { classifyError, getErrorMessage } from "./errors";
+import type { LoadProgress, ModelSpec } from "./protocol";
+
+export type Backend = { device: ModelDevice; dtype: ModelDtype };
+
+/** Weights that need the `shader-f16` GPU feature on WebGPU. */
+const F16_DTYPES: ReadonlySet<ModelDtype> = new Set(["fp16", "q4f16"]);
+
+/**
+ * The registry's dtypes, narrowed to what the Hub repo (or mirror) contains.
+ * Falls back to the registry list when it can't be reached, and when the
+ * model source is local-only.
+ */
+export async function availableDtypes(
+  model: ModelConfig
+): Promise<ModelDtype[]> {
+  const source = loadModelSource();
+  if (source.mode === "local-only") return model.dtypes;
+  const files = await fetchRepoFiles(model.id, source.remoteHost);
+  if (!files) return model.dtypes;
+  const found = dtypesInFiles(files, model.dtypes);
+  return found.length > 0 ? found : model.dtypes;
+}
+
+export type LoadOutcome = {
+  /** The spec that actually loaded; may differ from the one requested. */
+  spec: ModelSpec;
+  /** Explains any fallback that happened, for display. */
+  notice: string | null;
+};
+
+/**
+ * Loads `requested`, degrading gracefully: WebGPU requests go to wasm when
+ * the browser can't run them, and a dtype that fails to load is retried on
+ * wasm with the model's default and then with any other published dtype.
+ * `onAttempt` sees every spec tried so callers can dispose them all.
+ */
+export async function loadWithFallback(
+  client: InferenceClient,
+  model: ModelConfig,
+  requested: ModelSpec,
+  onProgress: (progress: LoadProgress) => void,
+  onAttempt: (spec: ModelSpec) => void = () => {}
+): Promise<LoadOutcome> {
+  const notes: string[] = [];
+  let first = requested;
+
+  if (first.device === "webgpu") {
+    const caps = await detectCapabilities();
+    if (!caps.webgpu) {
+      notes.push(`WebGPU is unavailable (${caps.reason}).`);
+      first = { ...first, device: "wasm" };
+    } else if (F16_DTYPES.has(first.dtype) && !caps.shaderF16) {
+      notes.push(
+        `This GPU lacks shader-f16 support, which ${first.dtype} needs on WebGPU.`
+      );
+      first = { ...first, device: "wasm" };
+    }
+  }
+
+  const candidates: ModelSpec[] = [first];
+  const addCandidate = (spec: ModelSpec) => {
+    const seen = candidates.some(
+      (c) => c.device === spec.device && c.dtype === spec.dtype
+    );
+    if (!seen) candidates.push(spec);
+  };
+  addCandidate({ ...first, device: "wasm" });
+  addCandidate({ ...first, device: "wasm", dtype: model.dtype });
+  for (const dtype of await availableDtypes(model)) {
+    addCandidate({ ...first, device: "wasm", dtype });
+  }
+
+  let lastError: unknown = null;
+  for (const spec of candidates) {
+    onAttempt(spec);
+    try {
+      await client.load(spec, onProgress);
+      const changed =
+        spec.device !== requested.device || spec.dtype !== requested.dtype;
+      if (changed) {
+        notes.push(`Running ${spec.dtype} on ${spec.device} instead.`);
+      }
+      return { spec, notice: notes.length > 0 ? notes.join(" ") : null };
+    } catch (err: unknown) {
+      lastError = err;
+      const reason = getErrorMessage(err);
+      notes.push(`Loading ${spec.dtype} on ${spec.device} failed: ${reason}.`);
+      // Every other candidate would need the same downloads
+      if (classifyError(err) === "network") break;
+    }
+  }
+  throw lastError;
+}
+
+function storageKey(slug: string): string {
+  return `backend:${slug}`;
+}
+
+function loadBackend(model: ModelConfig, dtypes: ModelDtype[]): Backend {
+  const fallback = {
+    device: model.device,
+    dtype: dtypes.includes(model.dtype) ? model.dtype : dtypes[0],
+  };
+  try {
+    const raw: unknown = JSON.parse(
+      localStorage.getItem(storageKey(model.slug)) ?? "null"
+    );
+    if (typeof raw !== "object" || raw === null) return fallback;
+    const { device, dtype } = raw as Record<string, unknown>;
+    return {
+      device:
+        device === "webgpu" || device === "wasm" ? device : fallback.device,
+      dtype: dtypes.includes(dtype as ModelDtype)
+        ? (dtype as ModelDtype)
+        : fallback.dtype,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+/** The stored device/dtype choice for `model`, as the model page uses it. */
+export async function preferredBackend(model: ModelConfig): Promise<Backend> {
+  return loadBackend(model, await availableDtypes(model));
+}
+
+/**
+ * The user's device/dtype choice for `model`, persisted per model like the
+ * generation settings, plus the dtypes actually on offer. `resolved` turns
+ * true once the stored choice has been checked against the Hub listing;
+ * until then `backend` holds the registry defaults.
+ */
+export function useBackendChoice(model: ModelConfig) {
+  const [backend, setBackendState] = useState<Backend>({
+    device: model.device,
+    dtype: model.dtype,
+  });
+  const [dtypes, setDtypes] = useState<ModelDtype[]>(model.dtypes);
+  const [resolved, setResolved] = useState(false);
+
+  useEffect(() => {
+    let stale = false;
+    void availableDtypes(model).then((found) => {
+      if (stale) return;
+      setDtypes(found);
+      setBackendState(loadBackend(model, found));
+      setResolved(true);
+    });
+    return () => {
+      stale = true;
+    };
+  }, [model]);
+
+  const setBackend = useCallback(
+    (next: Backend) => {
+      setBackendState(next);
+      try {
+        localStorage.setItem(storageKey(model.slug), JSON.stringify(next));
+      } catch {
+        // settings just won't persist
+      }
+    },
+    [model]
+  );
+
+  return { backend, setBackend, dtypes, resolved };
+}
@@ -0,0 +1,317 @@
+/**
+ * Page-side wrapper around `inference.worker.ts`. Turns the request/response
+ * messages into promises and callbacks. One worker is shared by the whole
+ * app (see `getInferenceClient`) so a loaded pipeline survives client-side
+ * navigation between routes; `ModelManager` decides when it is unloaded.
+ */
+import type { GenerationParams } from "@/lib/models";
+import { loadModelSource, type ModelSource } from "@/lib/sources";
+import { InferenceError } from "./errors";
+import { ModelManager } from "./manager";
+import {
+  assistantSpec,
+  type GenerateInput,
+  type GenerationResult,
+  type GenerationStats,
+  type LoadProgress,
+  type ModelSpec,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./protocol";
+
+// Distributes `Omit` over the request union
+type RequestBody<R = WorkerRequest> = R extends WorkerRequest
+  ? Omit<R, "requestId">
+  : never;
+
+// Messages that settle a request; the rest are intermediate callbacks
+type FinalResponse = Extract<
+  WorkerResponse,
+  {
+    type:
+      | "configured"
+      | "loaded"
+      | "generated"
+      | "counted"
+      | "embedded"
+      | "disposed";
+  }
+>;
+
+type Callbacks = {
+  onProgress?: (progress: LoadProgress) => void;
+  onToken?: (text: string, stats: GenerationStats) => void;
+};
+
+type Pending = Callbacks & {
+  resolve: (msg: FinalResponse) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * What the client did with a model, for `ModelManager`. `busy`/`idle`
+ * bracket a generate or embed request; the worker loads the model for
+ * those if it isn't resident yet. `reset`: the worker crashed, taking
+ * every loaded model with it.
+ */
+export type ModelEvent =
+  | { type: "loaded"; spec: ModelSpec }
+  | { type: "busy"; spec: ModelSpec }
+  | { type: "idle"; spec: ModelSpec; ok: boolean }
+  | { type: "disposed"; spec: ModelSpec }
+  | { type: "reset" };
+
+export type GenerateHandle = {
+  requestId: number;
+  /** Resolves with the full output once generation finishes or is stopped. */
+  result: Promise<GenerationResult>;
+};
+
+export class InferenceClient {
+  /** `null` after a crash, until the next request starts a new one. */
+  private worker: Worker | null;
+  private readonly pending = new Map<number, Pending>();
+  private readonly observers = new Set<(event: ModelEvent) => void>();
+  private source = loadModelSource();
+  private nextId = 1;
+
+  constructor() {
+    this.worker = this.spawn();
+  }
+
+  /** Points later loads at `source`; already loaded models are kept. */
+  configure(source: ModelSource): Promise<void> {
+    this.source = source;
+    return this.send({ type: "configure", source }).done.then(
+      () => undefined
+    );
+  }
+
+  load(
+    model: ModelSpec,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<void> {
+    return this.send({ type: "load", model }, { onProgress }).done.then(
+      () => this.emit({ type: "loaded", spec: model })
+    );
+  }
+
+  /**
+   * Loads `model` like `load` but doesn't report it, so `ModelManager`
+   * neither counts it nor evicts other models to make room. For filling the
+   * browser cache; the caller disposes the model afterwards.
+   */
+  download(
+    model: ModelSpec,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<void> {
+    return this.send({ type: "load", model }, { onProgress }).done.then(
+      () => undefined
+    );
+  }
+
+  generate(
+    model: ModelSpec,
+    input: GenerateInput,
+    params: GenerationParams,
+    onToken?: Callbacks["onToken"]
+  ): GenerateHandle {
+    const { requestId, done } = this.send(
+      { type: "generate", model, input, params },
+      { onToken }
+    );
+    // The worker loads a draft model on demand, so it is in use too
+    const draft = assistantSpec(params);
+    const used = draft ? this.using(draft, done) : done;
+    const result = this.using(model, used).then((msg): GenerationResult => {
+      if (msg.type !== "generated") {
+        throw new Error(`Unexpected "${msg.type}" reply to generate`);
+      }
+      return {
+        text: msg.text,
+        messages: msg.messages,
+        tokenIds: msg.tokenIds,
+        finishReason: msg.finishReason,
+        stats: msg.stats,
+        cancelled: msg.cancelled,
+        inspection: msg.inspection,
+        speculative: msg.speculative,
+      };
+    });
+    return { requestId, result };
+  }
+
+  countTokens(model: ModelSpec, input: GenerateInput): Promise<number> {
+    return this.renderPrompt(model, input).then((r) => r.tokens);
+  }
+
+  /**
+   * The prompt exactly as `model` would be fed it (chat template and
+   * special tokens included) and its length in tokens. Needs only the
+   * tokenizer, not the weights.
+   */
+  renderPrompt(
+    model: ModelSpec,
+    input: GenerateInput
+  ): Promise<{ text: string; tokens: number }> {
+    return this.send({ type: "count", model, input }).done.then((msg) => {
+      if (msg.type !== "counted") {
+        throw new Error(`Unexpected "${msg.type}" reply to count`);
+      }
+      return { text: msg.text, tokens: msg.tokens };
+    });
+  }
+
+  /** One embedding per text, from a feature-extraction `model`. */
+  embed(model: ModelSpec, texts: string[]): Promise<number[][]> {
+    const { done } = this.send({ type: "embed", model, texts });
+    return this.using(model, done).then((msg) => {
+      if (msg.type !== "embedded") {
+        throw new Error(`Unexpected "${msg.type}" reply to embed`);
+      }
+      return msg.vectors;
+    });
+  }
+
+  /**
+   * Stops a running generation. Its `result` still resolves, with the partial
+   * text and `cancelled: true`; the model stays loaded.
+   */
+  cancel(requestId: number): void {
+    this.worker?.postMessage({
+      type: "cancel",
+      requestId,
+    } satisfies WorkerRequest);
+  }
+
+  dispose(model: ModelSpec): Promise<void> {
+    return this.send({ type: "dispose", model }).done.then(() =>
+      this.emit({ type: "disposed", spec: model })
+    );
+  }
+
+  /** Reports every load, use and dispose; returns an unsubscribe function. */
+  observe(observer: (event: ModelEvent) => void): () => void {
+    this.observers.add(observer);
+    return () => this.observers.delete(observer);
+  }
+
+  private emit(event: ModelEvent): void {
+    for (const observer of this.observers) observer(event);
+  }
+
+  /** Brackets a request that needs `model` resident with busy/idle events. */
+  private using<T>(model: ModelSpec, done: Promise<T>): Promise<T> {
+    this.emit({ type: "busy", spec: model });
+    return done.then(
+      (value) => {
+        this.emit({ type: "idle", spec: model, ok: true });
+        return value;
+      },
+      (err: unknown) => {
+        this.emit({ type: "idle", spec: model, ok: false });
+        throw err;
+      }
+    );
+  }
+
+  /**
+   * Starts a worker pointed at the current source. A crashed worker is
+   * replaced on the next request rather than at once, so one that can't
+   * even start doesn't restart in a loop.
+   */
+  private spawn(): Worker {
+    const worker = new Worker(
+      new URL("./inference.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.addEventListener("message", (e: MessageEvent<WorkerResponse>) =>
+      this.onMessage(e.data)
+    );
+    worker.addEventListener("error", (e) => {
+      this.crash(worker, e.message || "The inference worker crashed.");
+    });
+    worker.addEventListener("messageerror", () => {
+      this.crash(worker, "A message from the inference worker was unreadable.");
+    });
+    worker.postMessage({
+      type: "configure",
+      requestId: this.nextId++,
+      source: this.source,
+    } satisfies WorkerRequest);
+    return worker;
+  }
+
+  /** Fails every request in flight and drops `worker` and its models. */
+  private crash(worker: Worker, message: string): void {
+    if (worker !== this.worker) return;
+    worker.terminate();
+    this.worker = null;
+    const error = new InferenceError(message);
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const p of pending) p.reject(error);
+    this.emit({ type: "reset" });
+  }
+
+  private send(
+    body: RequestBody,
+    callbacks: Callbacks = {}
+  ): { requestId: number; done: Promise<FinalResponse> } {
+    this.worker ??= this.spawn();
+    const requestId = this.nextId++;
+    const done = new Promise<FinalResponse>((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject, ...callbacks });
+    });
+    this.worker.postMessage({ ...body, requestId } as WorkerRequest);
+    return { requestId, done };
+  }
+
+  private onMessage(msg: WorkerResponse): void {
+    const p = this.pending.get(msg.requestId);
+    if (!p) return;
+
+    switch (msg.type) {
+      case "progress":
+        p.onProgress?.(msg.progress);
+        return;
+      case "token":
+        p.onToken?.(msg.text, msg.stats);
+        return;
+      case "configured":
+      case "loaded":
+      case "generated":
+      case "counted":
+      case "embedded":
+      case "disposed":
+        this.pending.delete(msg.requestId);
+        p.resolve(msg);
+        return;
+      case "error":
+        this.pending.delete(msg.requestId);
+        p.reject(new InferenceError(msg.message, msg.kind));
+        return;
+    }
+  }
+}
+
+let shared: { client: InferenceClient; manager: ModelManager } | null = null;
+
+// Created together so the manager sees every load from the start
+function getShared(): { client: InferenceClient; manager: ModelManager } {
+  if (!shared) {
+    const client = new InferenceClient();
+    shared = { client, manager: new ModelManager(client) };
+  }
+  return shared;
+}
+
+/** The app-wide client; creates the worker on first use (browser only). */
+export function getInferenceClient(): InferenceClient {
+  return getShared().client;
+}
+
+/** Memory policies and eviction for everything the shared client loads. */
+export function getModelManager(): ModelManager {
+  return getShared().manager;
+}
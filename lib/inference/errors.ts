@@ -0,0 +1,130 @@
+/**
+ * One place to turn whatever transformers.js, onnxruntime or `fetch` threw
+ * into something a user can act on. Errors cross the worker boundary as
+ * plain messages, so classification works on the message text (plus the
+ * error's name where the original object is at hand).
+ */
+
+export type InferenceErrorKind =
+  | "network"
+  | "missing-file"
+  | "out-of-memory"
+  | "unsupported-backend"
+  | "unknown";
+
+const REMEDIATION: Record<InferenceErrorKind, string | null> = {
+  network:
+    "Model files couldn't be downloaded. Check the connection (or the Hub's " +
+    "status) and try again; files already cached are kept.",
+  "missing-file":
+    "The model source doesn't have these files for the chosen quantization. " +
+    "Pick another dtype in the backend settings, or add the files to the " +
+    "local model directory.",
+  "out-of-memory":
+    "The model doesn't fit in the memory this tab can use. Close other tabs, " +
+    "choose a smaller quantization (q4/q8), or switch to a smaller model.",
+  "unsupported-backend":
+    "This browser or GPU can't run the chosen backend. Switch the device to " +
+    "wasm, or use a browser with WebGPU enabled.",
+  unknown: null,
+};
+
+// Checked in order: an out-of-memory error on WebGPU mentions both, and
+// "backend not found" is not a missing file
+const PATTERNS: Array<[InferenceErrorKind, RegExp]> = [
+  [
+    "out-of-memory",
+    alternatives([
+      "out of memory",
+      "\\boom\\b",
+      "bad_alloc",
+      "array buffer allocation failed",
+      "(?:could not|cannot|failed to) allocate",
+      "memory access out of bounds",
+      // onnxruntime-web's wasm build aborts this way when a session won't fit
+      "^aborted\\(\\)",
+    ]),
+  ],
+  [
+    "unsupported-backend",
+    alternatives([
+      "webgpu",
+      "no available backend",
+      "backend .*not (?:found|supported)",
+      "not supported",
+      "unsupported",
+      "gpu adapter",
+      "shader-f16",
+      "device (?:was )?lost",
+    ]),
+  ],
+  [
+    "missing-file",
+    alternatives([
+      "could not locate file",
+      // what the Hub answers anonymous requests for files it doesn't have
+      "unauthorized access to file",
+      "\\b404\\b",
+      "not found",
+      "does not exist",
+      "no such file",
+    ]),
+  ],
+  [
+    "network",
+    alternatives([
+      "failed to fetch",
+      "networkerror",
+      "network error",
+      "load failed",
+      "err_internet",
+      "err_connection",
+      "timed out",
+      "\\b50[234]\\b",
+    ]),
+  ],
+];
+
+function alternatives(patterns: string[]): RegExp {
+  return new RegExp(patterns.join("|"), "i");
+}
+
+export function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === "string") return err;
+  return JSON.stringify(err);
+}
+
+export function classifyError(err: unknown): InferenceErrorKind {
+  if (err instanceof InferenceError) return err.kind;
+  if (err instanceof RangeError && /allocat|memory/i.test(err.message)) {
+    return "out-of-memory";
+  }
+  const message = getErrorMessage(err);
+  return PATTERNS.find(([, re]) => re.test(message))?.[0] ?? "unknown";
+}
+
+/** A failed inference request, with what the user can do about it. */
+export class InferenceError extends Error {
+  readonly remediation: string | null;
+
+  constructor(
+    message: string,
+    readonly kind: InferenceErrorKind = classifyError(message)
+  ) {
+    super(message);
+    this.name = "InferenceError";
+    this.remediation = REMEDIATION[kind];
+  }
+}
+
+export function toInferenceError(err: unknown): InferenceError {
+  if (err instanceof InferenceError) return err;
+  return new InferenceError(getErrorMessage(err), classifyError(err));
+}
+
+/** The message followed by its remediation, for display. */
+export function describeError(err: unknown): string {
+  const { message, remediation } = toInferenceError(err);
+  return remediation ? `${message}\n${remediation}` : message;
+}
@@ -0,0 +1,629 @@
+/**
+ * Dedicated worker that owns every transformers.js pipeline so downloads,
+ * session creation and generation never block the page. Speaks the protocol
+ * in `protocol.ts`; see `client.ts` for the page side.
+ */
+import {
+  AutoTokenizer,
+  env,
+  InterruptableStoppingCriteria,
+  pipeline,
+  StoppingCriteria,
+  type LogitsProcessor,
+  TextStreamer,
+  type FeatureExtractionPipeline,
+  type PreTrainedTokenizer,
+  type PretrainedModelOptions,
+  type ProgressInfo,
+  type TextGenerationConfig,
+  type TextGenerationPipeline,
+} from "@huggingface/transformers";
+import type { GenerationParams } from "@/lib/models";
+import {
+  DEFAULT_MODEL_SOURCE,
+  describeLocations,
+  findMissingFiles,
+  type ModelSource,
+} from "@/lib/sources";
+import type { JsonSchema } from "@/lib/structured/schema";
+import { classifyError, getErrorMessage } from "./errors";
+import { InspectingLogitsProcessor, tokenPieces } from "./inspect-processor";
+import { JsonSchemaLogitsProcessor } from "./json-processor";
+import {
+  assistantSpec,
+  modelKey,
+  type ChatMessage,
+  type FinishReason,
+  type GenerateInput,
+  type GenerationResult,
+  type GenerationStats,
+  type InspectedToken,
+  type ModelSpec,
+  type SpeculativeStats,
+  type TokenInspection,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./protocol";
+import {
+  assertSharedVocabulary,
+  speculativeDecode,
+} from "./speculative-decoder";
+
+env.useBrowserCache = true; // cache ONNX files, not runtime tensors
+
+let source: ModelSource = DEFAULT_MODEL_SOURCE;
+
+/** Points transformers.js at `next` for every file it fetches from now on. */
+function applySource(next: ModelSource): void {
+  source = next;
+  env.allowLocalModels = next.mode !== "hub";
+  env.allowRemoteModels = next.mode !== "local-only";
+  env.localModelPath = next.localPath;
+  env.remoteHost = next.remoteHost;
+}
+
+applySource(DEFAULT_MODEL_SOURCE);
+
+type AnyPipeline = TextGenerationPipeline | FeatureExtractionPipeline;
+
+const pipelines = new Map<string, Promise<AnyPipeline>>();
+// Standalone tokenizers (by repo) for counting tokens of unloaded models
+const tokenizers = new Map<string, Promise<PreTrainedTokenizer>>();
+const running = new Map<number, InterruptableStoppingCriteria>();
+
+function post(message: WorkerResponse): void {
+  (self as unknown as { postMessage(m: WorkerResponse): void }).postMessage(
+    message
+  );
+}
+
+function isChatMessage(x: unknown): x is ChatMessage {
+  return (
+    typeof x === "object" &&
+    x !== null &&
+    typeof (x as Record<string, unknown>).role === "string" &&
+    typeof (x as Record<string, unknown>).content === "string"
+  );
+}
+
+/**
+ * The text and, for chats, the conversation out of a text-generation
+ * result: `[{ generated_text: string }]` for a prompt, or
+ * `[{ generated_text: ChatMessage[] }]` ending on the reply for messages.
+ */
+function readOutput(
+  result: unknown
+): Pick<GenerationResult, "text" | "messages"> {
+  const first: unknown = Array.isArray(result) ? result[0] : result;
+  const generated =
+    typeof first === "object" && first !== null && "generated_text" in first
+      ? first.generated_text
+      : undefined;
+
+  if (typeof generated === "string") return { text: generated };
+  if (Array.isArray(generated) && generated.every(isChatMessage)) {
+    const last = generated[generated.length - 1];
+    return {
+      text: last?.role === "assistant" ? last.content : "",
+      messages: generated,
+    };
+  }
+  throw new Error(`Unexpected pipeline output: ${JSON.stringify(result)}`);
+}
+
+/** Chromium-only `performance.memory`; `null` elsewhere. */
+function usedHeapBytes(): number | null {
+  const memory = (performance as { memory?: { usedJSHeapSize: number } })
+    .memory;
+  return memory ? memory.usedJSHeapSize : null;
+}
+
+function createStatsTracker(): {
+  onToken: (count?: number) => void;
+  snapshot: () => GenerationStats;
+} {
+  const startedAt = performance.now();
+  let firstTokenAt: number | null = null;
+  let tokens = 0;
+  let peakHeapBytes = usedHeapBytes();
+
+  return {
+    onToken(count = 1) {
+      tokens += count;
+      firstTokenAt ??= performance.now();
+      const heap = usedHeapBytes();
+      if (heap !== null && heap > (peakHeapBytes ?? 0)) peakHeapBytes = heap;
+    },
+    snapshot() {
+      const now = performance.now();
+      const decodeSeconds =
+        firstTokenAt === null ? 0 : (now - firstTokenAt) / 1000;
+      return {
+        tokens,
+        timeToFirstTokenMs:
+          firstTokenAt === null ? null : firstTokenAt - startedAt,
+        durationMs: now - startedAt,
+        tokensPerSecond:
+          tokens > 1 && decodeSeconds > 0 ? (tokens - 1) / decodeSeconds : 0,
+        peakHeapBytes,
+      };
+    },
+  };
+}
+
+/**
+ * Stops once the generated text contains any of `stops`. Generated ids are
+ * fed in from the streamer's token callback, which runs before the stopping
+ * criteria on every step.
+ */
+class StopSequenceCriteria extends StoppingCriteria {
+  private ids: bigint[] = [];
+  matched = false;
+
+  constructor(
+    private readonly tokenizer: PreTrainedTokenizer,
+    private readonly stops: string[]
+  ) {
+    super();
+  }
+
+  push(tokens: bigint[]): void {
+    if (this.matched || this.stops.length === 0) return;
+    this.ids.push(...tokens);
+    const text = this.tokenizer.decode(this.ids, { skip_special_tokens: true });
+    this.matched = this.stops.some((s) => text.includes(s));
+  }
+
+  _call(input_ids: number[][]): boolean[] {
+    return new Array(input_ids.length).fill(this.matched);
+  }
+}
+
+/** Cuts `text` at the first stop sequence found at or after `from`. */
+function truncateAtStop(text: string, stops: string[], from: number): string {
+  let end = text.length;
+  for (const stop of stops) {
+    const i = text.indexOf(stop, from);
+    if (i !== -1 && i < end) end = i;
+  }
+  return text.slice(0, end);
+}
+
+/** mulberry32: tiny, fast, good enough for sampling. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * transformers.js samples with `Math.random`, so a seeded run swaps it out
+ * for the duration of `fn`. Overlapping seeded runs in this worker would
+ * share the generator.
+ */
+async function withSeed<T>(
+  seed: number | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (seed === undefined) return fn();
+  const original = Math.random;
+  Math.random = seededRandom(seed);
+  try {
+    return await fn();
+  } finally {
+    Math.random = original;
+  }
+}
+
+/** Every token id that ends generation for `pipe`'s model. */
+function eosTokenIds(pipe: TextGenerationPipeline): number[] {
+  const ids = new Set<number>();
+  const configured = pipe.model.generation_config?.eos_token_id;
+  for (const id of Array.isArray(configured) ? configured : [configured]) {
+    if (typeof id === "number") ids.add(id);
+  }
+  // Some configs leave it out; the tokenizer's end token always counts
+  const fromTokenizer = pipe.tokenizer.eos_token_id as number | undefined;
+  if (fromTokenizer !== undefined) ids.add(fromTokenizer);
+  return [...ids];
+}
+
+/** Masks every token that would take the output off `schema`. */
+function jsonConstraint(
+  pipe: TextGenerationPipeline,
+  schema: JsonSchema | undefined
+): LogitsProcessor[] {
+  if (!schema) return [];
+  return [
+    new JsonSchemaLogitsProcessor(pipe.tokenizer, schema, eosTokenIds(pipe)),
+  ];
+}
+
+/**
+ * The prompt exactly as the pipeline tokenizes it: chats get the template
+ * and generation prompt, and raw text gets special tokens only where the
+ * tokenizer asks for them.
+ */
+function promptTokens(
+  tokenizer: PreTrainedTokenizer,
+  input: GenerateInput
+): { text: string; ids: number[] } {
+  if (typeof input !== "string") {
+    const text = tokenizer.apply_chat_template(input, {
+      add_generation_prompt: true,
+      tokenize: false,
+    }) as string;
+    return { text, ids: tokenizer.encode(text, { add_special_tokens: false }) };
+  }
+  const add = Boolean(tokenizer.add_bos_token || tokenizer.add_eos_token);
+  return {
+    text: input,
+    ids: tokenizer.encode(input, { add_special_tokens: add }),
+  };
+}
+
+/** Draft tokens per pass when a request doesn't set `num_assistant_tokens`. */
+const DEFAULT_ASSISTANT_TOKENS = 4;
+
+/**
+ * Greedy generation with `draft` proposing tokens for `pipe`'s model,
+ * streamed through `streamer` like a pipeline run and returning what the
+ * pipeline would.
+ */
+async function generateAssisted(
+  pipe: TextGenerationPipeline,
+  draft: TextGenerationPipeline,
+  names: { target: string; draft: string },
+  input: GenerateInput,
+  params: GenerationParams,
+  streamer: TextStreamer,
+  shouldStop: () => boolean
+): Promise<{
+  output: Pick<GenerationResult, "text" | "messages">;
+  speculative: SpeculativeStats;
+}> {
+  assertSharedVocabulary(pipe.tokenizer, draft.tokenizer, names);
+  const prompt = promptTokens(pipe.tokenizer, input).ids;
+  const generated: number[] = [];
+  streamer.put([prompt.map(BigInt)]);
+  const speculative = await speculativeDecode({
+    target: pipe.model,
+    draft: draft.model,
+    prompt,
+    maxNewTokens: params.max_new_tokens,
+    lookahead: params.num_assistant_tokens ?? DEFAULT_ASSISTANT_TOKENS,
+    repetitionPenalty:
+      params.repetition_penalty ??
+      pipe.model.generation_config?.repetition_penalty ??
+      1,
+    eosTokenIds: eosTokenIds(pipe),
+    onTokens: (tokens) => {
+      generated.push(...tokens);
+      streamer.put([tokens.map(BigInt)]);
+    },
+    shouldStop,
+  });
+  streamer.end();
+
+  const reply = pipe.tokenizer.decode(generated, { skip_special_tokens: true });
+  const output =
+    typeof input === "string"
+      ? { text: input + reply }
+      : {
+          text: reply,
+          messages: [
+            ...input,
+            { role: "assistant" as const, content: reply },
+          ],
+        };
+  return { output, speculative };
+}
+
+function inspection(
+  tokenizer: PreTrainedTokenizer,
+  input: GenerateInput,
+  steps: InspectedToken[]
+): TokenInspection {
+  const prompt = promptTokens(tokenizer, input);
+  return {
+    promptText: prompt.text,
+    prompt: tokenPieces(tokenizer, prompt.ids),
+    steps,
+  };
+}
+
+/**
+ * Rethrows a failed load, naming the files the source lacks when missing
+ * files are the likely cause (a 404, or an offline Hub behind local files).
+ */
+async function explainLoadFailure(
+  spec: ModelSpec,
+  err: unknown
+): Promise<never> {
+  const kind = classifyError(err);
+  const probe =
+    kind === "missing-file" ||
+    (kind === "network" && source.mode === "prefer-local");
+  if (probe) {
+    const missing = await findMissingFiles(
+      source,
+      spec.id,
+      spec.task,
+      spec.dtype
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Model files for ${spec.id} (${spec.dtype}) not found in ` +
+          `${describeLocations(source, spec.id)}: ${missing.join(", ")}`
+      );
+    }
+  }
+  throw err;
+}
+
+function loadPipeline(
+  spec: ModelSpec,
+  requestId: number
+): Promise<AnyPipeline> {
+  const key = modelKey(spec);
+  let p = pipelines.get(key);
+  if (!p) {
+    const options: PretrainedModelOptions = {
+      device: spec.device,
+      dtype: spec.dtype,
+      progress_callback: (progress: ProgressInfo) =>
+        post({ type: "progress", requestId, progress }),
+    };
+    // Comparing against the full pipeline union overwhelms tsc (TS2590)
+    p = (
+      pipeline(spec.task, spec.id, options) as unknown as Promise<AnyPipeline>
+    ).catch((err: unknown) => explainLoadFailure(spec, err));
+    // A failed load must not poison later attempts
+    p.catch(() => pipelines.delete(key));
+    pipelines.set(key, p);
+  }
+  return p;
+}
+
+// The spec's task decides which pipeline a key holds
+function getPipeline(
+  spec: ModelSpec,
+  requestId: number
+): Promise<TextGenerationPipeline> {
+  return loadPipeline(spec, requestId) as Promise<TextGenerationPipeline>;
+}
+
+/**
+ * The model's tokenizer. Uses the pipeline's when the model is resident;
+ * otherwise loads just the tokenizer, so counting tokens doesn't pull the
+ * weights back in after the model was unloaded.
+ */
+async function getTokenizer(spec: ModelSpec): Promise<PreTrainedTokenizer> {
+  const loaded = pipelines.get(modelKey(spec));
+  if (loaded) return ((await loaded) as TextGenerationPipeline).tokenizer;
+  let t = tokenizers.get(spec.id);
+  if (!t) {
+    t = AutoTokenizer.from_pretrained(spec.id);
+    t.catch(() => tokenizers.delete(spec.id));
+    tokenizers.set(spec.id, t);
+  }
+  return t;
+}
+
+function getExtractor(
+  spec: ModelSpec,
+  requestId: number
+): Promise<FeatureExtractionPipeline> {
+  return loadPipeline(spec, requestId) as Promise<FeatureExtractionPipeline>;
+}
+
+async function handle(req: WorkerRequest): Promise<void> {
+  switch (req.type) {
+    case "configure": {
+      applySource(req.source);
+      post({ type: "configured", requestId: req.requestId });
+      return;
+    }
+
+    case "load": {
+      await loadPipeline(req.model, req.requestId);
+      post({ type: "loaded", requestId: req.requestId });
+      return;
+    }
+
+    case "generate": {
+      // Registered before the (possibly slow) load so an early cancel sticks
+      const stopper = new InterruptableStoppingCriteria();
+      running.set(req.requestId, stopper);
+
+      try {
+        const pipe = await getPipeline(req.model, req.requestId);
+        const {
+          seed,
+          stop: rawStop = [],
+          json_schema,
+          inspect_top_k,
+          ...rest
+        } = req.params;
+        const stop = rawStop.filter((s) => s !== "");
+        const draftSpec = assistantSpec(req.params);
+        // Unset knobs must not override the model's generation_config, and
+        // the draft model settings are for `generateAssisted` only
+        const generation = Object.fromEntries(
+          Object.entries(rest).filter(
+            ([k, v]) => v !== undefined && !k.includes("assistant")
+          )
+        );
+        const stats = createStatsTracker();
+        const stopSequences = new StopSequenceCriteria(pipe.tokenizer, stop);
+
+        if (stopper.interrupted) {
+          post({
+            type: "generated",
+            requestId: req.requestId,
+            text: typeof req.input === "string" ? req.input : "",
+            tokenIds: [],
+            finishReason: "cancelled",
+            stats: stats.snapshot(),
+            cancelled: true,
+          });
+          return;
+        }
+
+        const tokenIds: number[] = [];
+        const inspector = inspect_top_k
+          ? new InspectingLogitsProcessor(pipe.tokenizer, inspect_top_k)
+          : null;
+
+        const streamer = new TextStreamer(pipe.tokenizer, {
+          skip_prompt: true,
+          skip_special_tokens: true,
+          token_callback_function: (tokens: bigint[]) => {
+            // Several at once when a draft model's guesses are accepted
+            stats.onToken(tokens.length);
+            tokenIds.push(...tokens.map(Number));
+            for (const id of tokens) inspector?.record(Number(id));
+            stopSequences.push(tokens);
+          },
+          callback_function: (text: string) =>
+            post({
+              type: "token",
+              requestId: req.requestId,
+              text,
+              stats: stats.snapshot(),
+            }),
+        });
+
+        let output: Pick<GenerationResult, "text" | "messages">;
+        let speculative: SpeculativeStats | undefined;
+        if (draftSpec) {
+          const draft = await getPipeline(draftSpec, req.requestId);
+          ({ output, speculative } = await generateAssisted(
+            pipe,
+            draft,
+            { target: req.model.id, draft: draftSpec.id },
+            req.input,
+            req.params,
+            streamer,
+            () => stopper.interrupted || stopSequences.matched
+          ));
+        } else {
+          // `stopping_criteria` and `logits_processor` are forwarded to
+          // `model.generate()` but are missing from the pipeline's option
+          // types. An interrupted run still returns everything generated up
+          // to that point.
+          const result: unknown = await withSeed(seed, () =>
+            pipe(req.input, {
+              ...generation,
+              // The inspector goes last so it sees what sampling will see
+              logits_processor: [
+                ...jsonConstraint(pipe, json_schema),
+                ...(inspector ? [inspector] : []),
+              ],
+              streamer,
+              stopping_criteria: [stopper, stopSequences],
+            } as Partial<TextGenerationConfig>)
+          );
+          output = readOutput(result);
+        }
+        const promptLength =
+          typeof req.input === "string" ? req.input.length : 0;
+        const text = truncateAtStop(output.text, stop, promptLength);
+        let finishReason: FinishReason;
+        if (stopper.interrupted) {
+          finishReason = "cancelled";
+        } else if (stopSequences.matched) {
+          finishReason = "stop";
+        } else if (eosTokenIds(pipe).includes(tokenIds[tokenIds.length - 1])) {
+          finishReason = "eos";
+        } else {
+          // `max_new_tokens`, or the model's own `max_length`
+          finishReason = "length";
+        }
+        post({
+          type: "generated",
+          requestId: req.requestId,
+          text,
+          messages: output.messages?.map((m, i, all) =>
+            i === all.length - 1 ? { ...m, content: text } : m
+          ),
+          tokenIds,
+          finishReason,
+          stats: stats.snapshot(),
+          cancelled: stopper.interrupted,
+          inspection: inspector
+            ? inspection(pipe.tokenizer, req.input, inspector.steps)
+            : undefined,
+          speculative,
+        });
+      } finally {
+        running.delete(req.requestId);
+      }
+      return;
+    }
+
+    case "count": {
+      const tokenizer = await getTokenizer(req.model);
+      const { text, ids } = promptTokens(tokenizer, req.input);
+      post({
+        type: "counted",
+        requestId: req.requestId,
+        tokens: ids.length,
+        text,
+      });
+      return;
+    }
+
+    case "embed": {
+      const extractor = await getExtractor(req.model, req.requestId);
+      const output = await extractor(req.texts, {
+        pooling: "mean",
+        normalize: true,
+      });
+      post({
+        type: "embedded",
+        requestId: req.requestId,
+        vectors: output.tolist() as number[][],
+      });
+      return;
+    }
+
+    case "cancel": {
+      running.get(req.requestId)?.interrupt();
+      return;
+    }
+
+    case "dispose": {
+      const key = modelKey(req.model);
+      const p = pipelines.get(key);
+      pipelines.delete(key);
+      if (p) {
+        try {
+          await (await p).dispose();
+        } catch {
+          // ignore dispose errors (including a load that never finished)
+        }
+      }
+      post({ type: "disposed", requestId: req.requestId });
+      return;
+    }
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const req = event.data;
+  handle(req).catch((err: unknown) => {
+    console.error(err);
+    post({
+      type: "error",
+      requestId: req.requestId,
+      message: getErrorMessage(err),
+      kind: classifyError(err),
+    });
+  });
+});
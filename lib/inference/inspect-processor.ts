@@ -0,0 +1,107 @@
+/**
+ * Logits processor for the token inspector (worker only). It leaves the
+ * logits alone and records, at every step, the distribution the next token
+ * is sampled from: its top-k candidates and its entropy. The streamer then
+ * reports which token was picked, completing the step.
+ */
+import {
+  LogitsProcessor,
+  type PreTrainedTokenizer,
+  type Tensor,
+} from "@huggingface/transformers";
+import type { InspectedToken, TokenPiece } from "./protocol";
+
+const prefixes = new WeakMap<PreTrainedTokenizer, number[]>();
+
+/**
+ * Tokens decoded the way they read mid-sequence: SentencePiece drops the
+ * leading space of a first token, so each one is decoded after a fixed
+ * prefix that is cut off again.
+ */
+export function tokenPieces(
+  tokenizer: PreTrainedTokenizer,
+  ids: number[]
+): TokenPiece[] {
+  let prefix = prefixes.get(tokenizer);
+  if (!prefix) {
+    prefix = tokenizer.encode("a", { add_special_tokens: false });
+    prefixes.set(tokenizer, prefix);
+  }
+  const prefixText = tokenizer.decode(prefix);
+  const pieces = tokenizer.model.convert_ids_to_tokens(ids);
+  return ids.map((id, i) => {
+    const full = tokenizer.decode([...prefix, id]);
+    return {
+      id,
+      piece: pieces[i] ?? "",
+      text: full.startsWith(prefixText)
+        ? full.slice(prefixText.length)
+        : tokenizer.decode([id]),
+    };
+  });
+}
+
+/** Indices of the `k` largest values, largest first. */
+function topIndices(values: Float32Array, k: number): number[] {
+  const top: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (top.length === k && values[i] <= values[top[k - 1]]) continue;
+    let at = top.length;
+    while (at > 0 && values[top[at - 1]] < values[i]) at--;
+    top.splice(at, 0, i);
+    if (top.length > k) top.pop();
+  }
+  return top;
+}
+
+type Distribution = { probs: Float32Array; entropy: number; top: number[] };
+
+export class InspectingLogitsProcessor extends LogitsProcessor {
+  readonly steps: InspectedToken[] = [];
+  private pending: Distribution | null = null;
+
+  constructor(
+    private readonly tokenizer: PreTrainedTokenizer,
+    private readonly topK: number
+  ) {
+    super();
+  }
+
+  _call(input_ids: bigint[][], logits: Tensor): Tensor {
+    const scores = logits.data as Float32Array;
+    let max = -Infinity;
+    for (const score of scores) if (score > max) max = score;
+
+    const probs = new Float32Array(scores.length);
+    let sum = 0;
+    for (let i = 0; i < scores.length; i++) {
+      probs[i] = Math.exp(scores[i] - max);
+      sum += probs[i];
+    }
+    let entropy = 0;
+    for (let i = 0; i < probs.length; i++) {
+      probs[i] /= sum;
+      if (probs[i] > 0) entropy -= probs[i] * Math.log2(probs[i]);
+    }
+
+    this.pending = { probs, entropy, top: topIndices(probs, this.topK) };
+    return logits;
+  }
+
+  /** Completes the current step with the token that was sampled. */
+  record(id: number): void {
+    if (!this.pending) return;
+    const { probs, entropy, top } = this.pending;
+    this.pending = null;
+    const [chosen, ...alternatives] = tokenPieces(this.tokenizer, [
+      id,
+      ...top,
+    ]);
+    this.steps.push({
+      ...chosen,
+      prob: probs[id],
+      entropy,
+      top: alternatives.map((t) => ({ ...t, prob: probs[t.id] })),
+    });
+  }
+}
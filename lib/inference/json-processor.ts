@@ -0,0 +1,128 @@
+/**
+ * Logits processor for schema-constrained JSON (worker only). Before each
+ * step it masks every token whose text can't continue a valid value, and
+ * once the value is complete it allows only end-of-sequence.
+ */
+import {
+  LogitsProcessor,
+  type PreTrainedTokenizer,
+  type Tensor,
+} from "@huggingface/transformers";
+import {
+  advance,
+  advanceText,
+  initialState,
+  isComplete,
+  isFinished,
+  type ConstraintState,
+} from "@/lib/structured/constraint";
+import type { JsonSchema } from "@/lib/structured/schema";
+
+type VocabEntry = { id: number; text: string };
+
+type Vocab = {
+  /** Token id to its text; `null` for special and partial-UTF-8 tokens. */
+  texts: (string | null)[];
+  /** Usable tokens sorted by text, so shared prefixes are walked once. */
+  sorted: VocabEntry[];
+};
+
+const vocabs = new WeakMap<PreTrainedTokenizer, Vocab>();
+
+/**
+ * Decodes every token the way it reads mid-sequence. SentencePiece drops a
+ * leading space on the first token, so each one is decoded after a fixed
+ * prefix and the prefix is cut off again.
+ */
+function getVocab(tokenizer: PreTrainedTokenizer): Vocab {
+  let vocab = vocabs.get(tokenizer);
+  if (vocab) return vocab;
+
+  const prefix = tokenizer.encode("a", { add_special_tokens: false });
+  const prefixText = tokenizer.decode(prefix);
+  const size = tokenizer.model.vocab.length;
+  const texts: (string | null)[] = new Array(size).fill(null);
+  const sorted: VocabEntry[] = [];
+  for (let id = 0; id < size; id++) {
+    const full = tokenizer.decode([...prefix, id], {
+      skip_special_tokens: true,
+    });
+    const text = full.slice(prefixText.length);
+    const partial = text.includes("\uFFFD");
+    if (!full.startsWith(prefixText) || text === "" || partial) continue;
+    texts[id] = text;
+    sorted.push({ id, text });
+  }
+  sorted.sort((a, b) => (a.text < b.text ? -1 : a.text > b.text ? 1 : 0));
+
+  vocab = { texts, sorted };
+  vocabs.set(tokenizer, vocab);
+  return vocab;
+}
+
+export class JsonSchemaLogitsProcessor extends LogitsProcessor {
+  private state: ConstraintState;
+  private readonly vocab: Vocab;
+  /** Tokens of `input_ids` already fed to `state` (the prompt, at first). */
+  private consumed: number | null = null;
+
+  constructor(
+    tokenizer: PreTrainedTokenizer,
+    schema: JsonSchema,
+    private readonly eosTokenIds: number[]
+  ) {
+    super();
+    this.vocab = getVocab(tokenizer);
+    this.state = initialState(schema);
+  }
+
+  _call(input_ids: bigint[][], logits: Tensor): Tensor {
+    const ids = input_ids[0];
+    if (this.consumed === null) this.consumed = ids.length;
+    for (; this.consumed < ids.length; this.consumed++) {
+      const text = this.vocab.texts[Number(ids[this.consumed])];
+      // EOS and other special tokens have no text
+      if (text) this.state = advanceText(this.state, text) ?? this.state;
+    }
+
+    const scores = logits.data as Float32Array;
+    const allowed = isFinished(this.state)
+      ? new Uint8Array(scores.length)
+      : this.allowedTokens(scores.length);
+    if (isComplete(this.state) || !allowed.includes(1)) {
+      // Always leave a way out, even from a dead end
+      for (const id of this.eosTokenIds) allowed[id] = 1;
+    }
+    for (let i = 0; i < scores.length; i++) {
+      if (!allowed[i]) scores[i] = -Infinity;
+    }
+    return logits;
+  }
+
+  /**
+   * Walks the sorted vocabulary like a trie: the states for the prefix a
+   * token shares with the previous one are reused, and a dead prefix rules
+   * out every token under it.
+   */
+  private allowedTokens(size: number): Uint8Array {
+    const allowed = new Uint8Array(size);
+    const states: (ConstraintState | null)[] = [this.state];
+    let previous = "";
+
+    for (const { id, text } of this.vocab.sorted) {
+      let shared = 0;
+      const limit = Math.min(previous.length, text.length, states.length - 1);
+      while (shared < limit && previous[shared] === text[shared]) shared++;
+      states.length = shared + 1;
+
+      let state = states[shared];
+      for (let i = shared; i < text.length && state; i++) {
+        state = advance(state, text[i]);
+        states.push(state);
+      }
+      if (state && id < size) allowed[id] = 1;
+      previous = text;
+    }
+    return allowed;
+  }
+}
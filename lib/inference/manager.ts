@@ -0,0 +1,328 @@
+/**
+ * Decides how long loaded models stay in the worker. Every load, use and
+ * dispose goes through the shared `InferenceClient`, so the manager sees
+ * them all (from any route) and applies each model's `MemoryPolicy` plus a
+ * cap on how many models are resident at once, evicting the least recently
+ * used.
+ *
+ * Unloading is always safe: the worker reloads a model (from the browser
+ * cache) when it is next used, so callers never need to know.
+ */
+import {
+  DEFAULT_MEMORY_POLICY,
+  EMBEDDING_MODEL,
+  MODELS,
+  type MemoryPolicy,
+} from "@/lib/models";
+import type { InferenceClient, ModelEvent } from "./client";
+import { modelKey, type ModelSpec } from "./protocol";
+
+/** Idle policies are checked this often. */
+const SWEEP_INTERVAL_MS = 30_000;
+
+const MAX_RESIDENT_KEY = "model-manager:max-resident";
+export const DEFAULT_MAX_RESIDENT = 2;
+
+export type ResidentModel = {
+  spec: ModelSpec;
+  /** Registry name, or the repo id for models outside the registry. */
+  name: string;
+  policy: MemoryPolicy;
+  loadedAt: number;
+  lastUsedAt: number;
+  /** Generate/embed requests in flight. */
+  active: number;
+  /** Pages currently showing the model (see `hold`). */
+  holders: number;
+};
+
+type Resident = Omit<ResidentModel, "holders">;
+
+/** What `useResidentModels` shows; see `ModelManager.snapshot`. */
+export type ResidentSnapshot = {
+  residents: ResidentModel[];
+  maxResident: number;
+};
+
+function modelName(id: string): string {
+  if (id === EMBEDDING_MODEL.id) return EMBEDDING_MODEL.name;
+  return MODELS.find((m) => m.id === id)?.name ?? id;
+}
+
+function policyKey(id: string): string {
+  return `memory-policy:${id}`;
+}
+
+function isPolicy(x: unknown): x is MemoryPolicy {
+  if (typeof x !== "object" || x === null) return false;
+  const { kind, minutes } = x as { kind?: unknown; minutes?: unknown };
+  if (kind === "idle") return typeof minutes === "number" && minutes > 0;
+  return kind === "after-run" || kind === "keep-warm";
+}
+
+/** The stored policy for a repo, else the registry's, else the default. */
+export function loadPolicy(id: string): MemoryPolicy {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(policyKey(id)) ?? "null"
+    );
+    if (isPolicy(stored)) return stored;
+  } catch {
+    // unavailable storage or bad JSON
+  }
+  const registered = MODELS.find((m) => m.id === id)?.memoryPolicy;
+  return registered ?? DEFAULT_MEMORY_POLICY;
+}
+
+function loadMaxResident(): number {
+  try {
+    const stored = Number(localStorage.getItem(MAX_RESIDENT_KEY));
+    if (Number.isInteger(stored) && stored >= 1) return stored;
+  } catch {
+    // unavailable storage
+  }
+  return DEFAULT_MAX_RESIDENT;
+}
+
+/** Adds `delta` to `key`'s count, dropping it at zero. */
+function count(
+  counts: Map<string, number>,
+  key: string,
+  delta: number
+): void {
+  const next = (counts.get(key) ?? 0) + delta;
+  if (next > 0) counts.set(key, next);
+  else counts.delete(key);
+}
+
+export class ModelManager {
+  private readonly residents = new Map<string, Resident>();
+  /** Holds by key; kept apart so they outlive an unload and reload. */
+  private readonly holds = new Map<string, number>();
+  /** The holds (also counted in `holds`) that defer after-run unloads. */
+  private readonly runHolds = new Map<string, number>();
+  /** Loaded implicitly by a request that hasn't succeeded yet. */
+  private readonly unconfirmed = new Set<string>();
+  private readonly listeners = new Set<() => void>();
+  /** Policies by repo, read from storage on first use. */
+  private readonly policies = new Map<string, MemoryPolicy>();
+  /** Cleared on every change, so readers can compare by identity. */
+  private cached: ResidentSnapshot | null = null;
+  private maxResident = loadMaxResident();
+
+  constructor(private readonly client: InferenceClient) {
+    client.observe((event) => this.onEvent(event));
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  /** Resident models, most recently used first. */
+  list(): ResidentModel[] {
+    return [...this.residents.entries()]
+      .map(([key, r]) => ({ ...r, holders: this.holders(key) }))
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  getMaxResident(): number {
+    return this.maxResident;
+  }
+
+  /** `list()` and the cap; the same object until something changes. */
+  snapshot(): ResidentSnapshot {
+    this.cached ??= { residents: this.list(), maxResident: this.maxResident };
+    return this.cached;
+  }
+
+  /** The policy for a repo; the same object until it is changed. */
+  getPolicy(id: string): MemoryPolicy {
+    let policy = this.policies.get(id);
+    if (!policy) {
+      policy = loadPolicy(id);
+      this.policies.set(id, policy);
+    }
+    return policy;
+  }
+
+  setMaxResident(n: number): void {
+    this.maxResident = Math.max(1, Math.floor(n));
+    try {
+      localStorage.setItem(MAX_RESIDENT_KEY, String(this.maxResident));
+    } catch {
+      // setting just won't persist
+    }
+    this.enforceCap();
+    this.notify();
+  }
+
+  /** Changes the policy for a repo (every device/dtype of it) and saves it. */
+  setPolicy(id: string, policy: MemoryPolicy): void {
+    try {
+      localStorage.setItem(policyKey(id), JSON.stringify(policy));
+    } catch {
+      // setting just won't persist
+    }
+    this.policies.set(id, policy);
+    for (const r of this.residents.values()) {
+      if (r.spec.id === id) r.policy = policy;
+    }
+    this.notify();
+    this.sweep();
+  }
+
+  /**
+   * Marks `spec` as shown by a page: it won't be evicted or unloaded for
+   * idleness until the returned function releases it. After-run still
+   * unloads it after each generation unless `acrossRuns` is set, for pages
+   * that run it many times in a row; the unload then waits for the release.
+   */
+  hold(
+    spec: ModelSpec,
+    { acrossRuns = false }: { acrossRuns?: boolean } = {}
+  ): () => void {
+    const key = modelKey(spec);
+    count(this.holds, key, 1);
+    if (acrossRuns) count(this.runHolds, key, 1);
+    this.notify();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      count(this.holds, key, -1);
+      if (acrossRuns) count(this.runHolds, key, -1);
+      this.notify();
+      const resident = this.residents.get(key);
+      if (resident) this.settle(resident);
+      this.enforceCap();
+    };
+  }
+
+  unload(spec: ModelSpec): Promise<void> {
+    return this.client.dispose(spec);
+  }
+
+  /** Calls `listener` whenever the resident set or a setting changes. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private holders(key: string): number {
+    return this.holds.get(key) ?? 0;
+  }
+
+  private notify(): void {
+    this.cached = null;
+    for (const listener of this.listeners) listener();
+  }
+
+  private onEvent(event: ModelEvent): void {
+    if (event.type === "reset") {
+      this.residents.clear();
+      this.unconfirmed.clear();
+      this.notify();
+      return;
+    }
+    const key = modelKey(event.spec);
+    switch (event.type) {
+      case "loaded":
+        this.touch(event.spec);
+        this.enforceCap(key);
+        break;
+      case "busy":
+        if (!this.residents.has(key)) this.unconfirmed.add(key);
+        this.touch(event.spec).active += 1;
+        this.enforceCap(key);
+        break;
+      case "idle": {
+        // Gone already when the worker crashed mid-request
+        if (!this.residents.has(key)) break;
+        const resident = this.touch(event.spec);
+        resident.active = Math.max(0, resident.active - 1);
+        if (event.ok) {
+          this.unconfirmed.delete(key);
+          this.settle(resident);
+        } else if (this.unconfirmed.has(key) && resident.active === 0) {
+          // The implicit load failed, so nothing is resident
+          this.unconfirmed.delete(key);
+          this.residents.delete(key);
+        }
+        break;
+      }
+      case "disposed":
+        this.residents.delete(key);
+        this.unconfirmed.delete(key);
+        break;
+    }
+    this.notify();
+  }
+
+  private touch(spec: ModelSpec): Resident {
+    const key = modelKey(spec);
+    const now = Date.now();
+    let resident = this.residents.get(key);
+    if (!resident) {
+      resident = {
+        spec,
+        name: modelName(spec.id),
+        policy: this.getPolicy(spec.id),
+        loadedAt: now,
+        lastUsedAt: now,
+        active: 0,
+      };
+      this.residents.set(key, resident);
+    }
+    resident.lastUsedAt = now;
+    return resident;
+  }
+
+  /** Applies after-run once nothing is using or batch-holding the model. */
+  private settle(resident: Resident): void {
+    if (
+      resident.policy.kind === "after-run" &&
+      resident.active === 0 &&
+      !this.runHolds.has(modelKey(resident.spec))
+    ) {
+      void this.unload(resident.spec);
+    }
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, r] of this.residents) {
+      if (r.active > 0 || this.holders(key) > 0) continue;
+      if (
+        r.policy.kind === "idle" &&
+        now - r.lastUsedAt >= r.policy.minutes * 60_000
+      ) {
+        void this.unload(r.spec);
+      }
+    }
+  }
+
+  /**
+   * Unloads least recently used models until at most `maxResident` remain.
+   * Models in use or on screen are never evicted (so the cap can be
+   * exceeded), and keep-warm models go last.
+   */
+  private enforceCap(protectedKey?: string): void {
+    const candidates = [...this.residents.entries()]
+      .filter(
+        ([key, r]) =>
+          key !== protectedKey && r.active === 0 && this.holders(key) === 0
+      )
+      .sort(([, a], [, b]) => {
+        const warm =
+          Number(a.policy.kind === "keep-warm") -
+          Number(b.policy.kind === "keep-warm");
+        return warm !== 0 ? warm : a.lastUsedAt - b.lastUsedAt;
+      });
+
+    let excess = this.residents.size - this.maxResident;
+    for (const [key, r] of candidates) {
+      if (excess <= 0) break;
+      // Forgotten now so the next check doesn't count it again
+      this.residents.delete(key);
+      void this.client.dispose(r.spec);
+      excess -= 1;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import type { LoadProgress } from "./protocol";
+
+export type FileProgress = {
+  file: string;
+  loaded: number;
+  /** 0 until the server reports a length. */
+  total: number;
+  done: boolean;
+};
+
+/** Per-file download state, keyed by file path within the model repo. */
+export type DownloadState = Record<string, FileProgress>;
+
+/** Folds one `progress_callback` event into the per-file state. */
+export function applyProgress(
+  state: DownloadState,
+  p: LoadProgress
+): DownloadState {
+  if (p.status === "ready") return state;
+  const prev = state[p.file] ?? {
+    file: p.file,
+    loaded: 0,
+    total: 0,
+    done: false,
+  };
+
+  switch (p.status) {
+    case "initiate":
+    case "download":
+      return { ...state, [p.file]: prev };
+    case "progress":
+      return {
+        ...state,
+        [p.file]: { ...prev, loaded: p.loaded, total: p.total },
+      };
+    case "done":
+      return {
+        ...state,
+        [p.file]: {
+          ...prev,
+          loaded: Math.max(prev.loaded, prev.total),
+          done: true,
+        },
+      };
+  }
+}
+
+export function totalProgress(state: DownloadState): {
+  loaded: number;
+  total: number;
+} {
+  let loaded = 0;
+  let total = 0;
+  for (const f of Object.values(state)) {
+    loaded += f.loaded;
+    total += f.total;
+  }
+  return { loaded, total };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
@@ -0,0 +1,196 @@
+/**
+ * Message protocol between the page and `inference.worker.ts`. Every request
+ * carries a `requestId`; every response echoes the id of the request it
+ * answers so the client can route it to the right caller.
+ */
+import type { ProgressInfo } from "@huggingface/transformers";
+import type {
+  GenerationParams,
+  ModelConfig,
+  ModelDevice,
+  ModelDtype,
+  ModelTask,
+} from "@/lib/models";
+import type { ModelSource } from "@/lib/sources";
+import type { InferenceErrorKind } from "./errors";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ChatMessage = { role: ChatRole; content: string };
+
+/** Raw text for completion models, a message list for chat models. */
+export type GenerateInput = string | ChatMessage[];
+
+/** Everything the worker needs to build (or find) a pipeline. */
+export type ModelSpec = {
+  id: string;
+  task: ModelTask;
+  device: ModelDevice;
+  dtype: ModelDtype;
+};
+
+export type LoadProgress = ProgressInfo;
+
+/** Timings measured inside the worker, so page jank can't skew them. */
+export type GenerationStats = {
+  /** New tokens produced so far (prompt excluded). */
+  tokens: number;
+  timeToFirstTokenMs: number | null;
+  durationMs: number;
+  /** Decode speed after the first token; 0 until there are two tokens. */
+  tokensPerSecond: number;
+  /** Worker JS heap high-water mark, where the browser exposes it. */
+  peakHeapBytes: number | null;
+};
+
+/**
+ * Why generation ended: the model's end-of-sequence token, a stop sequence,
+ * the `max_new_tokens` budget, or a cancel request.
+ */
+export type FinishReason = "eos" | "stop" | "length" | "cancelled";
+
+/** A token id with its vocabulary entry and the text it decodes to. */
+export type TokenPiece = {
+  id: number;
+  /** As stored in the vocabulary, e.g. `Ġthe` or `▁the`. */
+  piece: string;
+  /** As it reads mid-sequence, e.g. ` the`. */
+  text: string;
+};
+
+/** One generated token and the distribution it was sampled from. */
+export type InspectedToken = TokenPiece & {
+  prob: number;
+  /** Of the whole distribution, in bits. */
+  entropy: number;
+  /** Most likely candidates first, the chosen token among them or not. */
+  top: Array<TokenPiece & { prob: number }>;
+};
+
+/**
+ * What `inspect_top_k` records. Probabilities are what sampling drew from:
+ * after repetition penalty and temperature, before top-k/top-p filtering.
+ */
+export type TokenInspection = {
+  /** The exact prompt, chat template applied; branches continue it. */
+  promptText: string;
+  prompt: TokenPiece[];
+  steps: InspectedToken[];
+};
+
+/** How a speculative run went; see `GenerationParams.assistant_model`. */
+export type SpeculativeStats = {
+  /** Tokens the draft model proposed. */
+  drafted: number;
+  /** Drafted tokens the target model agreed with. */
+  accepted: number;
+  /** Target forward passes; plain decoding needs one per token. */
+  targetPasses: number;
+};
+
+export type GenerationResult = {
+  /** Completion models: prompt plus continuation. Chat models: the reply. */
+  text: string;
+  /** Chat input only: the conversation with the reply appended. */
+  messages?: ChatMessage[];
+  /** Generated token ids, prompt excluded (stop-sequence text included). */
+  tokenIds: number[];
+  finishReason: FinishReason;
+  stats: GenerationStats;
+  /** True when a cancel request cut generation short; `text` is partial. */
+  cancelled: boolean;
+  /** Present when `inspect_top_k` was set. */
+  inspection?: TokenInspection;
+  /** Present when a draft model took part (see `assistantSpec`). */
+  speculative?: SpeculativeStats;
+};
+
+export type WorkerRequest =
+  /** Where later loads fetch model files from; sent before anything else. */
+  | { type: "configure"; requestId: number; source: ModelSource }
+  | { type: "load"; requestId: number; model: ModelSpec }
+  | {
+      type: "generate";
+      requestId: number;
+      model: ModelSpec;
+      input: GenerateInput;
+      params: GenerationParams;
+    }
+  /** Prompt length in tokens, after the chat template for message lists. */
+  | {
+      type: "count";
+      requestId: number;
+      model: ModelSpec;
+      input: GenerateInput;
+    }
+  /** Mean-pooled, normalized sentence embeddings (feature-extraction). */
+  | {
+      type: "embed";
+      requestId: number;
+      model: ModelSpec;
+      texts: string[];
+    }
+  /** `requestId` is the id of the generate request to stop. */
+  | { type: "cancel"; requestId: number }
+  | { type: "dispose"; requestId: number; model: ModelSpec };
+
+export type WorkerResponse =
+  | { type: "configured"; requestId: number }
+  | { type: "progress"; requestId: number; progress: LoadProgress }
+  | { type: "loaded"; requestId: number }
+  | {
+      type: "token";
+      requestId: number;
+      text: string;
+      stats: GenerationStats;
+    }
+  | ({ type: "generated"; requestId: number } & GenerationResult)
+  /** `text` is the prompt as the model sees it, chat template applied. */
+  | { type: "counted"; requestId: number; tokens: number; text: string }
+  | { type: "embedded"; requestId: number; vectors: number[][] }
+  | { type: "disposed"; requestId: number }
+  | {
+      type: "error";
+      requestId: number;
+      message: string;
+      kind: InferenceErrorKind;
+    };
+
+/** Just the new text: completion results start with the prompt. */
+export function generatedText(
+  input: GenerateInput,
+  result: GenerationResult
+): string {
+  return typeof input === "string" && result.text.startsWith(input)
+    ? result.text.slice(input.length)
+    : result.text;
+}
+
+/** `backend` overrides the registry's default device and dtype. */
+export function toModelSpec(
+  model: ModelConfig,
+  backend?: { device: ModelDevice; dtype: ModelDtype }
+): ModelSpec {
+  return {
+    id: model.id,
+    task: model.task,
+    device: backend?.device ?? model.device,
+    dtype: backend?.dtype ?? model.dtype,
+  };
+}
+
+/**
+ * The draft model `params` decode with, or `null` when they decode plainly:
+ * no `assistant_model`, or a setting speculative decoding can't honour.
+ */
+export function assistantSpec(params: GenerationParams): ModelSpec | null {
+  const draft = params.assistant_model;
+  if (!draft || params.do_sample) return null;
+  if (params.json_schema || params.inspect_top_k) return null;
+  return { ...draft, task: "text-generation" };
+}
+
+/** Pipelines are cached per repo, backend and quantization. */
+export function modelKey(spec: ModelSpec): string {
+  return `${spec.id}|${spec.device}|${spec.dtype}`;
+}
@@ -0,0 +1,241 @@
+/**
+ * Speculative decoding (worker only). A small draft model guesses the next
+ * few tokens one at a time; the target model then scores all of them in a
+ * single forward pass and keeps the guesses it agrees with, plus one token
+ * of its own. Both sides pick greedily, so the output is what the target
+ * alone would produce, in fewer (slow) target passes.
+ *
+ * The target's cache is cropped back to the accepted tokens after every
+ * pass, so each pass only feeds its own new tokens. The draft keeps the
+ * cache of every step instead and goes back to the one before its first
+ * rejected guess.
+ */
+import {
+  ones,
+  Tensor,
+  type PreTrainedModel,
+  type PreTrainedTokenizer,
+} from "@huggingface/transformers";
+import type { SpeculativeStats } from "./protocol";
+
+type Cache = Record<string, Tensor>;
+
+/** A KV cache and how many leading tokens of the sequence it holds. */
+type CacheState = { cache: Cache | null; length: number };
+
+const EMPTY: CacheState = { cache: null, length: 0 };
+
+/**
+ * Throws unless every token id of the draft means the same token to the
+ * target. The target may have extra (special) tokens at the end.
+ */
+export function assertSharedVocabulary(
+  target: PreTrainedTokenizer,
+  draft: PreTrainedTokenizer,
+  names: { target: string; draft: string }
+): void {
+  const a = target.model.vocab;
+  const b = draft.model.vocab;
+  const mismatch =
+    b.length > a.length ? b.length : b.findIndex((token, i) => token !== a[i]);
+  if (mismatch !== -1) {
+    throw new Error(
+      `${names.draft} can't draft for ${names.target}: their tokenizers ` +
+        `differ (from token id ${mismatch}).`
+    );
+  }
+}
+
+/**
+ * Runs `model` over the tokens of `sequence` that `state` lacks. Returns
+ * the logits of those positions and the cache covering all of `sequence`.
+ */
+async function forward(
+  model: PreTrainedModel,
+  state: CacheState,
+  sequence: number[]
+): Promise<{ logits: Tensor; state: CacheState }> {
+  const fresh = sequence.slice(state.length);
+  const outputs = (await model.forward({
+    input_ids: new Tensor("int64", BigInt64Array.from(fresh, BigInt), [
+      1,
+      fresh.length,
+    ]),
+    attention_mask: ones([1, sequence.length]),
+    past_key_values: state.cache,
+  })) as Record<string, Tensor>;
+  return {
+    logits: outputs.logits,
+    // `null`: the old cache may still be needed, so it isn't disposed here
+    state: {
+      cache: model.getPastKeyValues(outputs, null) as Cache,
+      length: sequence.length,
+    },
+  };
+}
+
+/** Frees a cache that is no longer needed (only GPU buffers need it). */
+function release(state: CacheState): void {
+  for (const tensor of Object.values(state.cache ?? {})) {
+    if (tensor.location === "gpu-buffer") tensor.dispose();
+  }
+}
+
+/**
+ * `state` cut back to its first `length` tokens (the sequence axis is the
+ * second to last of every cache tensor). GPU tensors can't be sliced in
+ * place, so they are read back first. Releases `state`.
+ */
+async function crop(state: CacheState, length: number): Promise<CacheState> {
+  const cache: Cache = {};
+  for (const [name, tensor] of Object.entries(state.cache ?? {})) {
+    const source =
+      tensor.location === "gpu-buffer"
+        ? new Tensor(
+            tensor.type,
+            (await tensor.ort_tensor.getData()) as Tensor["data"],
+            tensor.dims
+          )
+        : tensor;
+    const axis = tensor.dims.length - 2;
+    cache[name] = source.slice(
+      ...tensor.dims.map((_, i) => (i === axis ? [0, length] : null))
+    );
+  }
+  release(state);
+  return { cache, length };
+}
+
+/**
+ * The greedy pick from row `row` of `logits`, with the repetition penalty
+ * applied to every token already in `context` as transformers.js does.
+ */
+function argmax(
+  logits: Tensor,
+  row: number,
+  context: number[],
+  penalty: number
+): number {
+  const vocab = logits.dims[logits.dims.length - 1];
+  const data = logits.data as ArrayLike<number>;
+  const seen = penalty === 1 ? null : new Set(context);
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < vocab; i++) {
+    let score = data[row * vocab + i];
+    if (seen?.has(i)) score = score < 0 ? score * penalty : score / penalty;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Greedy decoding of `prompt` on `target`, `lookahead` tokens at a time
+ * drafted by `draft`. `onTokens` gets each pass's new tokens;
+ * `shouldStop` is checked between passes.
+ */
+export async function speculativeDecode({
+  target,
+  draft,
+  prompt,
+  maxNewTokens,
+  lookahead,
+  repetitionPenalty,
+  eosTokenIds,
+  onTokens,
+  shouldStop,
+}: {
+  target: PreTrainedModel;
+  draft: PreTrainedModel;
+  prompt: number[];
+  maxNewTokens: number;
+  lookahead: number;
+  repetitionPenalty: number;
+  eosTokenIds: number[];
+  onTokens: (tokens: number[]) => void;
+  shouldStop: () => boolean;
+}): Promise<SpeculativeStats> {
+  const stats: SpeculativeStats = { drafted: 0, accepted: 0, targetPasses: 0 };
+  const sequence = [...prompt];
+  let generated = 0;
+  let targetState = EMPTY;
+  let draftState = EMPTY;
+
+  try {
+    while (generated < maxNewTokens && !shouldStop()) {
+      // The target adds a token of its own, so leave room for it
+      const k = Math.min(lookahead, maxNewTokens - generated - 1);
+
+      // Draft k tokens; draftStates[i] holds everything before guess i
+      const guesses: number[] = [];
+      const draftStates: CacheState[] = [];
+      let state = draftState;
+      for (let i = 0; i < k; i++) {
+        const context = [...sequence, ...guesses];
+        const out = await forward(draft, state, context);
+        if (state !== draftState) draftStates.push(state);
+        else release(state);
+        state = out.state;
+        const guess = argmax(
+          out.logits,
+          out.logits.dims[1] - 1,
+          context,
+          repetitionPenalty
+        );
+        guesses.push(guess);
+        if (eosTokenIds.includes(guess)) break;
+      }
+      if (state !== draftState) draftStates.push(state);
+
+      // Verify them all at once: row j predicts the token after position
+      // `targetState.length + j`
+      const context = [...sequence, ...guesses];
+      const out = await forward(target, targetState, context);
+      stats.targetPasses += 1;
+      let accepted = 0;
+      let next: number;
+      for (;;) {
+        const position = sequence.length + accepted;
+        next = argmax(
+          out.logits,
+          position - 1 - targetState.length,
+          context.slice(0, position),
+          repetitionPenalty
+        );
+        if (accepted === guesses.length || next !== guesses[accepted]) break;
+        accepted += 1;
+      }
+      stats.drafted += guesses.length;
+      stats.accepted += accepted;
+
+      // The target's cache must not hold rejected guesses
+      release(targetState);
+      targetState =
+        accepted === guesses.length
+          ? out.state
+          : await crop(out.state, sequence.length + accepted);
+      if (draftStates.length > 0) {
+        const keep = Math.min(accepted, draftStates.length - 1);
+        draftStates.forEach((s, i) => {
+          if (i !== keep) release(s);
+        });
+        draftState = draftStates[keep];
+      }
+
+      const tokens = [...guesses.slice(0, accepted), next];
+      const eos = tokens.findIndex((t) => eosTokenIds.includes(t));
+      if (eos !== -1) tokens.length = eos + 1;
+      sequence.push(...tokens);
+      generated += tokens.length;
+      onTokens(tokens);
+      if (eos !== -1) break;
+    }
+  } finally {
+    release(targetState);
+    release(draftState);
+  }
+  return stats;
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { GenerationParams, ModelConfig } from "@/lib/models";
+import { loadWithFallback, type Backend } from "./backend";
+import { getInferenceClient, getModelManager } from "./client";
+import { describeError } from "./errors";
+import { applyProgress, type DownloadState } from "./progress";
+import {
+  toModelSpec,
+  type FinishReason,
+  type GenerateInput,
+  type GenerationResult,
+  type GenerationStats,
+  type LoadProgress,
+  type ModelSpec,
+  type SpeculativeStats,
+} from "./protocol";
+
+export type InferencePhase = "loading" | "ready" | "generating" | "error";
+
+export type Inference = ReturnType<typeof useInference>;
+
+function describeProgress(p: LoadProgress): string {
+  return p.status === "ready"
+    ? "Initializing model..."
+    : "Downloading model files (first run may take a bit)...";
+}
+
+/**
+ * Loads `model` in the shared inference worker when the component mounts and
+ * holds it in `ModelManager` until unmount, after which the model's memory
+ * policy decides when it is unloaded. The page thread only ever sees
+ * messages, so the UI stays responsive while the model downloads and
+ * generates.
+ *
+ * `output` grows token by token while generating; for completion models it
+ * starts with the prompt, matching what the pipeline finally returns.
+ *
+ * `backend` picks the device/dtype (registry defaults when omitted); pass
+ * `null` to hold off loading until the choice is known. If the choice can't
+ * run here, the hook falls back and explains why in `notice`.
+ */
+export function useInference(model: ModelConfig, backend?: Backend | null) {
+  const device = backend === null ? null : (backend?.device ?? model.device);
+  const dtype = backend?.dtype ?? model.dtype;
+  const requested = useMemo(
+    () => (device === null ? null : toModelSpec(model, { device, dtype })),
+    [model, device, dtype]
+  );
+  const requestIdRef = useRef<number | null>(null);
+
+  const [phase, setPhase] = useState<InferencePhase>("loading");
+  const [status, setStatus] = useState("Starting inference worker...");
+  const [output, setOutput] = useState("");
+  const [stats, setStats] = useState<GenerationStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [stopped, setStopped] = useState(false);
+  const [finishReason, setFinishReason] = useState<FinishReason | null>(null);
+  const [speculative, setSpeculative] = useState<SpeculativeStats | null>(
+    null
+  );
+  const [downloads, setDownloads] = useState<DownloadState>({});
+  const [spec, setSpec] = useState<ModelSpec | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!requested) return;
+    const client = getInferenceClient();
+    const attempted: ModelSpec[] = [];
+    let loaded: ModelSpec | null = null;
+    let release = () => {};
+    let cancelled = false;
+
+    setPhase("loading");
+    setStatus("Downloading/initializing model (first run may take a bit)...");
+    setDownloads({});
+    setSpec(null);
+    setNotice(null);
+
+    loadWithFallback(
+      client,
+      model,
+      requested,
+      (p) => {
+        if (cancelled) return;
+        setStatus(describeProgress(p));
+        setDownloads((prev) => applyProgress(prev, p));
+      },
+      (s) => attempted.push(s)
+    )
+      .then((outcome) => {
+        loaded = outcome.spec;
+        if (cancelled) return;
+        release = getModelManager().hold(outcome.spec);
+        setSpec(outcome.spec);
+        setNotice(outcome.notice);
+        setPhase("ready");
+        setStatus("Model ready.");
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error(err);
+        setPhase("error");
+        setStatus(`Error loading model: ${describeError(err)}`);
+      });
+
+    return () => {
+      cancelled = true;
+      // The model itself stays loaded as long as its memory policy says
+      release();
+      for (const s of attempted) {
+        if (s !== loaded) void client.dispose(s);
+      }
+    };
+  }, [model, requested]);
+
+  /**
+   * Resolves with the final result, or `null` if generation failed. `params`
+   * defaults to the model's registry settings.
+   */
+  const generate = useCallback(
+    async (
+      input: GenerateInput,
+      params: GenerationParams = model.generation
+    ): Promise<GenerationResult | null> => {
+      if (!spec) return null;
+      setOutput(typeof input === "string" ? input : "");
+      setStats(null);
+      setError(null);
+      setStopped(false);
+      setFinishReason(null);
+      setSpeculative(null);
+
+      const handle = getInferenceClient().generate(
+        spec,
+        input,
+        params,
+        (text, live) => {
+          setOutput((prev) => prev + text);
+          setStats(live);
+        }
+      );
+      requestIdRef.current = handle.requestId;
+      setPhase("generating");
+
+      try {
+        const result = await handle.result;
+        setOutput(result.text);
+        setStats(result.stats);
+        setStopped(result.cancelled);
+        setFinishReason(result.finishReason);
+        setSpeculative(result.speculative ?? null);
+        return result;
+      } catch (err: unknown) {
+        console.error(err);
+        setError(describeError(err));
+        return null;
+      } finally {
+        requestIdRef.current = null;
+        setPhase("ready");
+      }
+    },
+    [spec, model.generation]
+  );
+
+  const countTokens = useCallback(
+    async (input: GenerateInput) => {
+      if (!spec) throw new Error("Model is not loaded yet.");
+      return getInferenceClient().countTokens(spec, input);
+    },
+    [spec]
+  );
+
+  const renderPrompt = useCallback(
+    async (input: GenerateInput) => {
+      if (!spec) throw new Error("Model is not loaded yet.");
+      return getInferenceClient().renderPrompt(spec, input);
+    },
+    [spec]
+  );
+
+  /** Stops the current generation, keeping its partial output. */
+  const cancel = useCallback(() => {
+    if (requestIdRef.current !== null) {
+      getInferenceClient().cancel(requestIdRef.current);
+    }
+  }, []);
+
+  return {
+    phase,
+    status,
+    /** The device/dtype actually loaded, once ready. */
+    spec,
+    notice,
+    isLoading: phase === "loading",
+    isGenerating: phase === "generating",
+    isReady: phase === "ready",
+    downloads,
+    output,
+    stats,
+    error,
+    stopped,
+    /** Why the last generation ended; `null` while running or failed. */
+    finishReason,
+    /** Draft model figures for the last run, when one took part. */
+    speculative,
+    generate,
+    cancel,
+    countTokens,
+    renderPrompt,
+  };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { MemoryPolicy } from "@/lib/models";
+import { getModelManager } from "./client";
+import { DEFAULT_MAX_RESIDENT, type ResidentSnapshot } from "./manager";
+
+// The server has no worker, so it renders an empty one
+const SERVER_SNAPSHOT: ResidentSnapshot = {
+  residents: [],
+  maxResident: DEFAULT_MAX_RESIDENT,
+};
+
+function subscribe(onChange: () => void): () => void {
+  const unsubscribe = getModelManager().subscribe(onChange);
+  return () => {
+    unsubscribe();
+  };
+}
+
+/** The models loaded in the worker and the LRU cap, kept current. */
+export function useResidentModels(): ResidentSnapshot {
+  return useSyncExternalStore(
+    subscribe,
+    () => getModelManager().snapshot(),
+    () => SERVER_SNAPSHOT
+  );
+}
+
+/**
+ * The memory policy for a repo, kept current; `null` on the server, where
+ * the stored one can't be read.
+ */
+export function useMemoryPolicy(id: string): MemoryPolicy | null {
+  return useSyncExternalStore(
+    subscribe,
+    () => getModelManager().getPolicy(id),
+    () => null
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+/**
+ * Settings kept in localStorage and shared by every component showing
+ * them. `useStored` renders `fallback` on the server and while hydrating,
+ * then the stored value, so both renders agree.
+ */
+import { useSyncExternalStore } from "react";
+
+export type Stored<T> = {
+  /** The stored value, read once and then kept in memory. */
+  get: () => T;
+  /** Saves `value` (kept in memory even if storage fails) and re-renders. */
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+  fallback: T;
+};
+
+export function stored<T>({
+  load,
+  save,
+  fallback,
+}: {
+  load: () => T;
+  save: (value: T) => void;
+  fallback: T;
+}): Stored<T> {
+  const listeners = new Set<() => void>();
+  let current: { value: T } | null = null;
+  return {
+    get: () => (current ??= { value: load() }).value,
+    set: (value) => {
+      save(value);
+      current = { value };
+      for (const listener of listeners) listener();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    fallback,
+  };
+}
+
+export function useStored<T>(store: Stored<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, () => store.fallback);
+}
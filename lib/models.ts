@@ -0,0 +1,229 @@
+/**
+ * Every model the app can run. Adding a model is one entry in `MODELS`: the
+ * index page, the `/models/[slug]` route and its static params are all
+ * generated from this list.
+ */
+import type { JsonSchema } from "@/lib/structured/schema";
+
+/** Registry models generate text; `feature-extraction` is the RAG embedder. */
+export type ModelTask = "text-generation" | "feature-extraction";
+
+/**
+ * `chat` models are prompted with role/content messages (and the tokenizer's
+ * chat template); `completion` models continue a raw text prompt.
+ */
+export type ModelMode = "chat" | "completion";
+
+export type ModelDevice = "webgpu" | "wasm";
+
+export type ModelDtype = "fp32" | "fp16" | "q8" | "q4" | "q4f16";
+
+export const ALL_DTYPES: readonly ModelDtype[] = [
+  "fp32",
+  "fp16",
+  "q8",
+  "q4",
+  "q4f16",
+];
+
+export type GenerationParams = {
+  max_new_tokens: number;
+  do_sample: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  repetition_penalty?: number;
+  /** Makes sampled runs reproducible; ignored by greedy decoding. */
+  seed?: number;
+  /** Generation ends as soon as the output contains one of these. */
+  stop?: string[];
+  /**
+   * Constrains decoding to JSON matching this schema: tokens that can't
+   * continue a valid value are masked out at every step.
+   */
+  json_schema?: JsonSchema;
+  /**
+   * Records each step's distribution with this many top alternatives (see
+   * `TokenInspection`); unset skips the bookkeeping.
+   */
+  inspect_top_k?: number;
+  /**
+   * Speculative decoding: this smaller model, which must share the
+   * tokenizer, drafts `num_assistant_tokens` tokens at a time and the model
+   * checks them all in one forward pass. Greedy decoding only; sampling,
+   * `json_schema` and `inspect_top_k` decode without it.
+   */
+  assistant_model?: { id: string; device: ModelDevice; dtype: ModelDtype };
+  num_assistant_tokens?: number;
+};
+
+/** A registry model that can draft tokens for another (same tokenizer). */
+export type DraftModel = {
+  slug: string;
+  /** Default tokens drafted per verification pass for this pair. */
+  lookahead: number;
+};
+
+/**
+ * When a loaded model is released: right after each generation, once it
+ * has been unused for `minutes`, or never (until the LRU cap needs room).
+ */
+export type MemoryPolicy =
+  | { kind: "after-run" }
+  | { kind: "idle"; minutes: number }
+  | { kind: "keep-warm" };
+
+export const DEFAULT_MEMORY_POLICY: MemoryPolicy = {
+  kind: "idle",
+  minutes: 10,
+};
+
+export type ModelConfig = {
+  /** URL segment under `/models/`. */
+  slug: string;
+  /** Hugging Face Hub repo id. */
+  id: string;
+  name: string;
+  description: string;
+  task: ModelTask;
+  mode: ModelMode;
+  /** Default backend and quantization; users can override both. */
+  device: ModelDevice;
+  dtype: ModelDtype;
+  /**
+   * Quantizations published for this repo. Narrowed further at runtime by
+   * the Hub file listing when it is reachable.
+   */
+  dtypes: ModelDtype[];
+  generation: GenerationParams;
+  defaultPrompt: string;
+  /** Initial (editable) system message for chat models. */
+  systemPrompt?: string;
+  /** Rough figures shown to users before they start a download. */
+  size: {
+    parameters: string;
+    downloadMB: number;
+  };
+  /** Maximum prompt + generated tokens, when known. */
+  contextWindow?: number;
+  /** Default memory policy; `DEFAULT_MEMORY_POLICY` when omitted. */
+  memoryPolicy?: MemoryPolicy;
+  /** Smaller models that can speed up greedy decoding as drafts. */
+  drafts?: DraftModel[];
+};
+
+export const MODELS: readonly ModelConfig[] = [
+  {
+    slug: "DistilGPT-2",
+    id: "Xenova/distilgpt2",
+    name: "DistilGPT-2",
+    description: "Distilled GPT-2 for free-form text continuation.",
+    task: "text-generation",
+    mode: "completion",
+    device: "wasm",
+    dtype: "q8",
+    dtypes: ["fp32", "fp16", "q8", "q4", "q4f16"],
+    generation: {
+      max_new_tokens: 64,
+      do_sample: true,
+      temperature: 0.8,
+      top_p: 0.9,
+    },
+    defaultPrompt: "Once upon a time,",
+    size: { parameters: "82M", downloadMB: 85 },
+    contextWindow: 1024,
+  },
+  {
+    slug: "llama2.c-stories15M",
+    id: "Xenova/llama2.c-stories15M",
+    name: "llama2.c-stories15M",
+    description: "Tiny Llama 2 trained on TinyStories.",
+    task: "text-generation",
+    mode: "completion",
+    device: "wasm",
+    dtype: "q8",
+    dtypes: ["fp32", "fp16", "q8", "q4", "q4f16"],
+    generation: {
+      max_new_tokens: 50,
+      do_sample: true,
+      temperature: 0.8,
+      top_p: 0.9,
+    },
+    defaultPrompt: "Once upon a time,",
+    size: { parameters: "15M", downloadMB: 25 },
+    contextWindow: 256,
+  },
+  {
+    slug: "SmolLM2-135M-Instruct",
+    id: "HuggingFaceTB/SmolLM2-135M-Instruct",
+    name: "SmolLM2-135M-Instruct",
+    description: "Small instruction-tuned chat model, CPU friendly.",
+    task: "text-generation",
+    mode: "chat",
+    device: "wasm",
+    dtype: "q4",
+    dtypes: ["fp32", "fp16", "q8", "q4", "q4f16"],
+    generation: {
+      max_new_tokens: 64,
+      do_sample: true,
+      temperature: 0.2,
+      top_p: 0.9,
+    },
+    defaultPrompt: "Answer in one sentence: What is the capital of France?",
+    systemPrompt: "You are a helpful assistant. Keep answers short.",
+    size: { parameters: "135M", downloadMB: 120 },
+    contextWindow: 8192,
+    // Small enough to reload quickly, so it gives its memory back each time
+    memoryPolicy: { kind: "after-run" },
+  },
+  {
+    slug: "Phi-3-mini-4k-instruct",
+    id: "Xenova/Phi-3-mini-4k-instruct",
+    name: "Phi-3 Mini 4k Instruct",
+    description: "3.8B chat model; first load is large, WebGPU recommended.",
+    task: "text-generation",
+    mode: "chat",
+    device: "wasm",
+    dtype: "q8",
+    dtypes: ["q8", "q4", "q4f16"],
+    generation: {
+      max_new_tokens: 256,
+      do_sample: false,
+    },
+    defaultPrompt: "Solve the equation: x^2 - 3x + 2 = 0",
+    systemPrompt: "You are a helpful assistant.",
+    size: { parameters: "3.8B", downloadMB: 3900 },
+    contextWindow: 4096,
+    // Phi-3 extends the Llama 2 vocabulary, so the ids of the shared 32000
+    // tokens line up
+    drafts: [{ slug: "llama2.c-stories15M", lookahead: 4 }],
+  },
+];
+
+/**
+ * Sentence embedder for document retrieval on chat pages. Not a page of its
+ * own, so it lives outside `MODELS`.
+ */
+export const EMBEDDING_MODEL = {
+  id: "Xenova/all-MiniLM-L6-v2",
+  name: "all-MiniLM-L6-v2",
+  task: "feature-extraction",
+  device: "wasm",
+  dtype: "q8",
+  downloadMB: 23,
+} as const satisfies {
+  id: string;
+  name: string;
+  task: ModelTask;
+  device: ModelDevice;
+  dtype: ModelDtype;
+  downloadMB: number;
+};
+
+export function getModel(slug: string): ModelConfig | undefined {
+  return MODELS.find((m) => m.slug === slug);
+}
+
+export function formatDownloadSize(mb: number): string {
+  return mb >= 1000 ? `~${(mb / 1000).toFixed(1)} GB` : `~${mb} MB`;
+}
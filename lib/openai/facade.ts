@@ -0,0 +1,565 @@
+"use client";
+
+/**
+ * OpenAI-compatible endpoints served from inside the page. Once installed,
+ * same-origin `fetch` calls to `/v1/models`, `/v1/chat/completions` and
+ * `/v1/completions` never reach the network: they are answered by the
+ * models in the shared inference worker, in the same JSON and SSE shapes as
+ * the OpenAI API. Point a client's base URL at `/v1` (any API key works).
+ *
+ * Requests run one at a time, in arrival order, so concurrent callers can't
+ * interleave on one pipeline.
+ */
+import { promptInput } from "@/lib/chat";
+import { loadWithFallback, preferredBackend } from "@/lib/inference/backend";
+import { getInferenceClient } from "@/lib/inference/client";
+import { classifyError, describeError } from "@/lib/inference/errors";
+import {
+  generatedText,
+  toModelSpec,
+  type ChatMessage,
+  type GenerateInput,
+  type ModelSpec,
+} from "@/lib/inference/protocol";
+import { MODELS, type GenerationParams, type ModelConfig } from "@/lib/models";
+import type { JsonSchema } from "@/lib/structured/schema";
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  Completion,
+  CompletionRequest,
+  ErrorBody,
+  FinishReason,
+  ModelObject,
+  OpenAIMessage,
+  Usage,
+} from "./types";
+
+const BASE_PATH = "/v1";
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly param: string | null = null,
+    readonly code: string | null = null
+  ) {
+    super(message);
+  }
+}
+
+type RunResult = { text: string; finishReason: FinishReason; usage: Usage };
+
+const loaded = new Map<string, Promise<ModelSpec>>();
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => {});
+  return run;
+}
+
+function completionId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+function unixTime(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorBody(err: unknown): ErrorBody {
+  const api = err instanceof ApiError ? err : null;
+  const kind = api ? "unknown" : classifyError(err);
+  return {
+    error: {
+      message: api ? api.message : describeError(err),
+      type: api && api.status < 500 ? "invalid_request_error" : "server_error",
+      param: api?.param ?? null,
+      // e.g. "out-of-memory", so clients can tell failures apart
+      code: api?.code ?? (kind === "unknown" ? null : kind),
+    },
+  };
+}
+
+function errorResponse(err: unknown): Response {
+  return json(errorBody(err), err instanceof ApiError ? err.status : 500);
+}
+
+function toModelObject(model: ModelConfig): ModelObject {
+  return {
+    id: model.slug,
+    object: "model",
+    created: 0,
+    owned_by: model.id.split("/")[0],
+  };
+}
+
+/** Accepts the registry slug (what `/v1/models` lists) or the Hub id. */
+function findModel(name: unknown): ModelConfig {
+  const model = MODELS.find((m) => m.slug === name || m.id === name);
+  if (!model) {
+    throw new ApiError(
+      404,
+      `The model '${String(name)}' does not exist.`,
+      "model",
+      "model_not_found"
+    );
+  }
+  return model;
+}
+
+/** Loads once per model, on the backend chosen on its model page. */
+function ensureLoaded(model: ModelConfig): Promise<ModelSpec> {
+  let spec = loaded.get(model.slug);
+  if (!spec) {
+    spec = preferredBackend(model)
+      .then((backend) =>
+        loadWithFallback(
+          getInferenceClient(),
+          model,
+          toModelSpec(model, backend),
+          () => {}
+        )
+      )
+      .then((outcome) => outcome.spec);
+    loaded.set(model.slug, spec);
+    spec.catch(() => loaded.delete(model.slug));
+  }
+  return spec;
+}
+
+/**
+ * `value` unless it is missing (`null` counts); throws a 400 naming `param`
+ * when it isn't a number in range.
+ */
+function numberParam(
+  value: unknown,
+  param: string,
+  { min = -Infinity, max = Infinity, integer = false } = {}
+): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < min ||
+    value > max ||
+    (integer && !Number.isInteger(value))
+  ) {
+    const range =
+      max < Infinity
+        ? ` between ${min} and ${max}`
+        : min > -Infinity
+          ? ` of at least ${min}`
+          : "";
+    const kind = integer ? "an integer" : "a number";
+    throw new ApiError(400, `'${param}' must be ${kind}${range}.`, param);
+  }
+  return value;
+}
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function toParams(
+  model: ModelConfig,
+  req: ChatCompletionRequest | CompletionRequest
+): GenerationParams {
+  if (req.n !== undefined && req.n !== 1) {
+    throw new ApiError(400, "Only n=1 is supported.", "n");
+  }
+  const params: GenerationParams = { ...model.generation };
+  const max =
+    numberParam(req.max_completion_tokens, "max_completion_tokens", {
+      min: 1,
+      integer: true,
+    }) ?? numberParam(req.max_tokens, "max_tokens", { min: 1, integer: true });
+  if (max !== undefined) params.max_new_tokens = max;
+  const temperature = numberParam(req.temperature, "temperature", {
+    min: 0,
+    max: 2,
+  });
+  if (temperature === 0) {
+    params.do_sample = false;
+  } else if (temperature !== undefined) {
+    params.do_sample = true;
+    params.temperature = temperature;
+  }
+  const topP = numberParam(req.top_p, "top_p", { min: 0, max: 1 });
+  if (topP !== undefined) params.top_p = topP;
+  const seed = numberParam(req.seed, "seed", { min: 0, integer: true });
+  if (seed !== undefined) params.seed = seed;
+  if (req.stop !== undefined && req.stop !== null) {
+    const stop: unknown = req.stop;
+    if (
+      typeof stop !== "string" &&
+      !(Array.isArray(stop) && stop.every((s) => typeof s === "string"))
+    ) {
+      throw new ApiError(
+        400,
+        "'stop' must be a string or an array of strings.",
+        "stop"
+      );
+    }
+    params.stop = typeof stop === "string" ? [stop] : stop;
+  }
+  const format: unknown =
+    "response_format" in req ? req.response_format : undefined;
+  if (format !== undefined && format !== null) {
+    if (!isObject(format)) {
+      throw new ApiError(
+        400,
+        "'response_format' must be an object.",
+        "response_format"
+      );
+    }
+    if (format.type === "json_object") {
+      params.json_schema = { type: "object" };
+    } else if (format.type === "json_schema") {
+      const { json_schema: spec } = format;
+      const schema = isObject(spec) ? spec.schema : null;
+      if (schema !== undefined && !isObject(schema)) {
+        throw new ApiError(
+          400,
+          "'response_format.json_schema' must be an object whose 'schema' " +
+            "is an object.",
+          "response_format.json_schema"
+        );
+      }
+      params.json_schema = (schema as JsonSchema | undefined) ?? {};
+    } else if (format.type !== "text") {
+      throw new ApiError(
+        400,
+        "'response_format.type' must be text, json_object or json_schema.",
+        "response_format.type"
+      );
+    }
+  }
+  return params;
+}
+
+function toChatMessages(messages: OpenAIMessage[]): ChatMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ApiError(400, "'messages' must be a non-empty array.", "messages");
+  }
+  return messages.map((m: unknown, i) => {
+    if (!isObject(m)) {
+      throw new ApiError(
+        400,
+        `messages[${i}] must be an object.`,
+        `messages[${i}]`
+      );
+    }
+    const { role, content } = m;
+    if (role !== "system" && role !== "user" && role !== "assistant") {
+      throw new ApiError(
+        400,
+        `Unsupported role '${String(role)}' in messages[${i}].`,
+        `messages[${i}].role`
+      );
+    }
+    return { role, content: messageText(content, i) };
+  });
+}
+
+/** A message's content as plain text: a string or text parts, joined. */
+function messageText(content: unknown, index: number): string {
+  if (content === null || content === undefined) return "";
+  if (typeof content === "string") return content;
+  if (
+    Array.isArray(content) &&
+    content.every(
+      (part) =>
+        isObject(part) && part.type === "text" && typeof part.text === "string"
+    )
+  ) {
+    return content.map((part: { text: string }) => part.text).join("");
+  }
+  throw new ApiError(
+    400,
+    `messages[${index}].content must be a string, null or an array of ` +
+      `{type: "text", text} parts.`,
+    `messages[${index}].content`
+  );
+}
+
+/**
+ * Generates one completion, streaming new text to `onText`. Aborting
+ * `signal` stops generation early and keeps what was produced.
+ */
+async function run(
+  model: ModelConfig,
+  input: GenerateInput,
+  params: GenerationParams,
+  signal: AbortSignal,
+  onText: (text: string) => void = () => {}
+): Promise<RunResult> {
+  return enqueue(async () => {
+    signal.throwIfAborted();
+    const client = getInferenceClient();
+    const spec = await ensureLoaded(model);
+    const promptTokens = await client.countTokens(spec, input);
+
+    // The final text ends before any stop sequence, so the stream holds back
+    // as many characters as the longest one until more text clears them
+    const hold = Math.max(0, ...(params.stop ?? []).map((s) => s.length));
+    let streamed = "";
+    let sent = 0;
+    const flush = (upto: number) => {
+      // Never split a surrogate pair between two chunks
+      if (/[\uD800-\uDBFF]/.test(streamed[upto - 1] ?? "")) upto--;
+      if (upto <= sent) return;
+      onText(streamed.slice(sent, upto));
+      sent = upto;
+    };
+    const handle = client.generate(spec, input, params, (text) => {
+      streamed += text;
+      flush(streamed.length - hold);
+    });
+    const stop = () => client.cancel(handle.requestId);
+    signal.addEventListener("abort", stop);
+    try {
+      const result = await handle.result;
+      const { stats, finishReason } = result;
+      const text = generatedText(input, result);
+      streamed = text;
+      flush(text.length);
+      return {
+        text,
+        // OpenAI reports an end-of-sequence token as "stop" too
+        finishReason: finishReason === "length" ? "length" : "stop",
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: stats.tokens,
+          total_tokens: promptTokens + stats.tokens,
+        },
+      };
+    } finally {
+      signal.removeEventListener("abort", stop);
+    }
+  });
+}
+
+/**
+ * A `text/event-stream` response fed by `produce`. Errors after the stream
+ * has started are sent as a final error event, as the OpenAI API does.
+ */
+function sse(
+  signal: AbortSignal,
+  onCancel: () => void,
+  produce: (send: (data: unknown) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (line: string) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(line));
+      };
+      const send = (data: unknown) => write(`data: ${JSON.stringify(data)}\n\n`);
+      try {
+        await produce(send);
+        write("data: [DONE]\n\n");
+      } catch (err: unknown) {
+        send(errorBody(err));
+      } finally {
+        if (!signal.aborted) controller.close();
+      }
+    },
+    cancel: onCancel,
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+async function chatCompletions(request: Request): Promise<Response> {
+  const req = (await readBody(request)) as ChatCompletionRequest;
+  const model = findModel(req.model);
+  if (model.mode !== "chat") {
+    throw new ApiError(
+      400,
+      `'${model.slug}' is a completion model; use ${BASE_PATH}/completions.`,
+      "model"
+    );
+  }
+  const messages = toChatMessages(req.messages);
+  const params = toParams(model, req);
+  const id = completionId("chatcmpl");
+  const created = unixTime();
+  const abort = linkedAbort(request.signal);
+
+  if (!req.stream) {
+    const result = await run(model, messages, params, abort.signal);
+    return json({
+      id,
+      object: "chat.completion",
+      created,
+      model: model.slug,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: result.text },
+          finish_reason: result.finishReason,
+        },
+      ],
+      usage: result.usage,
+    } satisfies ChatCompletion);
+  }
+
+  const chunk = (
+    delta: ChatCompletionChunk["choices"][number]["delta"],
+    finishReason: FinishReason | null = null
+  ): ChatCompletionChunk => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: model.slug,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  return sse(abort.signal, () => abort.abort(), async (send) => {
+    send(chunk({ role: "assistant", content: "" }));
+    const result = await run(model, messages, params, abort.signal, (text) =>
+      send(chunk({ content: text }))
+    );
+    send(chunk({}, result.finishReason));
+    if (req.stream_options?.include_usage) {
+      send({ ...chunk({}), choices: [], usage: result.usage });
+    }
+  });
+}
+
+async function completions(request: Request): Promise<Response> {
+  const req = (await readBody(request)) as CompletionRequest;
+  const model = findModel(req.model);
+  const prompts = Array.isArray(req.prompt) ? req.prompt : [req.prompt];
+  if (prompts.length !== 1 || typeof prompts[0] !== "string") {
+    throw new ApiError(400, "'prompt' must be a single string.", "prompt");
+  }
+  const prompt = prompts[0];
+  // Chat models get the prompt as one user turn
+  const input = promptInput(model, prompt);
+  const echo = req.echo && typeof input === "string" ? prompt : "";
+  const params = toParams(model, req);
+  const id = completionId("cmpl");
+  const created = unixTime();
+  const abort = linkedAbort(request.signal);
+
+  const body = (
+    text: string,
+    finishReason: FinishReason | null
+  ): Completion => ({
+    id,
+    object: "text_completion",
+    created,
+    model: model.slug,
+    choices: [{ index: 0, text, logprobs: null, finish_reason: finishReason }],
+  });
+
+  if (!req.stream) {
+    const result = await run(model, input, params, abort.signal);
+    return json({
+      ...body(echo + result.text, result.finishReason),
+      usage: result.usage,
+    });
+  }
+
+  return sse(abort.signal, () => abort.abort(), async (send) => {
+    if (echo) send(body(echo, null));
+    const result = await run(model, input, params, abort.signal, (text) =>
+      send(body(text, null))
+    );
+    send(body("", result.finishReason));
+    if (req.stream_options?.include_usage) {
+      send({ ...body("", null), choices: [], usage: result.usage });
+    }
+  });
+}
+
+/** Aborts when the caller aborts the fetch, or when `abort()` is called. */
+function linkedAbort(signal: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal.aborted) controller.abort();
+  signal.addEventListener("abort", () => controller.abort());
+  return controller;
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body: unknown = await request.json();
+    if (typeof body === "object" && body !== null) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // reported below
+  }
+  throw new ApiError(400, "The request body must be a JSON object.");
+}
+
+async function route(request: Request, path: string): Promise<Response> {
+  if (path === "/models") {
+    if (request.method !== "GET") throw new ApiError(405, "Use GET.");
+    return json({ object: "list", data: MODELS.map(toModelObject) });
+  }
+  if (path.startsWith("/models/")) {
+    if (request.method !== "GET") throw new ApiError(405, "Use GET.");
+    return json(toModelObject(findModel(decodeURIComponent(path.slice(8)))));
+  }
+  if (path === "/chat/completions" || path === "/completions") {
+    if (request.method !== "POST") throw new ApiError(405, "Use POST.");
+    return path === "/completions"
+      ? completions(request)
+      : chatCompletions(request);
+  }
+  throw new ApiError(404, `Unknown endpoint ${BASE_PATH}${path}.`);
+}
+
+/** Answers a `/v1/...` request; `path` is the part after `/v1`. */
+export async function handleOpenAIRequest(
+  request: Request,
+  path: string
+): Promise<Response> {
+  try {
+    return await route(request, path);
+  } catch (err: unknown) {
+    if (!(err instanceof ApiError)) console.error(err);
+    return errorResponse(err);
+  }
+}
+
+/**
+ * Routes same-origin `fetch` calls under `/v1/` to `handleOpenAIRequest`;
+ * everything else goes to the real `fetch`. Returns an uninstall function.
+ */
+export function installOpenAIFacade(): () => void {
+  const original = window.fetch;
+  const patched: typeof fetch = (input, init) => {
+    const url = new URL(
+      input instanceof Request ? input.url : String(input),
+      window.location.href
+    );
+    if (
+      url.origin !== window.location.origin ||
+      !url.pathname.startsWith(`${BASE_PATH}/`)
+    ) {
+      return original.call(window, input, init);
+    }
+    return handleOpenAIRequest(
+      new Request(input, init),
+      url.pathname.slice(BASE_PATH.length)
+    );
+  };
+
+  window.fetch = patched;
+  return () => {
+    if (window.fetch === patched) window.fetch = original;
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * The subset of the OpenAI REST shapes the local facade understands. Fields
+ * the in-browser models can't honour are accepted and ignored, except where
+ * ignoring them would change the answer (see `facade.ts`).
+ */
+import type { JsonSchema } from "@/lib/structured/schema";
+
+export type OpenAIContentPart = { type: string; text?: string };
+
+export type OpenAIMessage = {
+  role: string;
+  content: string | OpenAIContentPart[] | null;
+};
+
+type SamplingFields = {
+  model: string;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  seed?: number;
+  stop?: string | string[];
+  n?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+};
+
+/** Both JSON variants are enforced with constrained decoding. */
+export type ResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: { name: string; schema?: JsonSchema; strict?: boolean };
+    };
+
+export type ChatCompletionRequest = SamplingFields & {
+  messages: OpenAIMessage[];
+  response_format?: ResponseFormat;
+};
+
+export type CompletionRequest = SamplingFields & {
+  prompt: string | string[];
+  echo?: boolean;
+};
+
+export type FinishReason = "stop" | "length";
+
+export type Usage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+export type ModelObject = {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+};
+
+export type ChatCompletion = {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: "assistant"; content: string };
+    finish_reason: FinishReason;
+  }>;
+  usage: Usage;
+};
+
+export type ChatCompletionChunk = {
+  id: string;
+  object: "chat.completion.chunk";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: "assistant"; content?: string };
+    finish_reason: FinishReason | null;
+  }>;
+  usage?: Usage | null;
+};
+
+export type Completion = {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    text: string;
+    logprobs: null;
+    finish_reason: FinishReason | null;
+  }>;
+  usage?: Usage | null;
+};
+
+export type ErrorBody = {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+};
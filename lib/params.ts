@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  ALL_DTYPES,
+  type GenerationParams,
+  type ModelConfig,
+  type ModelDtype,
+} from "@/lib/models";
+
+export type PresetName = "precise" | "balanced" | "creative";
+
+/**
+ * Presets only touch sampling knobs; length, seed and stop sequences are
+ * left as the user set them.
+ */
+export const PRESETS: Record<PresetName, Partial<GenerationParams>> = {
+  precise: {
+    do_sample: false,
+    temperature: undefined,
+    top_p: undefined,
+    top_k: undefined,
+    repetition_penalty: 1.1,
+  },
+  balanced: {
+    do_sample: true,
+    temperature: 0.7,
+    top_p: 0.9,
+    top_k: 50,
+    repetition_penalty: 1.1,
+  },
+  creative: {
+    do_sample: true,
+    temperature: 1.1,
+    top_p: 0.95,
+    top_k: 0,
+    repetition_penalty: 1.0,
+  },
+};
+
+function storageKey(slug: string): string {
+  return `generation-params:${slug}`;
+}
+
+function isFiniteNumber(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x);
+}
+
+function isAssistant(
+  x: unknown
+): x is NonNullable<GenerationParams["assistant_model"]> {
+  if (typeof x !== "object" || x === null) return false;
+  const { id, device, dtype } = x as Record<string, unknown>;
+  return (
+    typeof id === "string" &&
+    (device === "wasm" || device === "webgpu") &&
+    ALL_DTYPES.includes(dtype as ModelDtype)
+  );
+}
+
+/**
+ * Keeps only well-typed, in-range fields from stored JSON or other
+ * untrusted input, falling back to `defaults` for anything missing or
+ * malformed (e.g. written by an older version).
+ */
+export function sanitizeParams(
+  raw: unknown,
+  defaults: GenerationParams
+): GenerationParams {
+  if (typeof raw !== "object" || raw === null) return defaults;
+  const r = raw as Record<string, unknown>;
+  const num = (
+    k: keyof GenerationParams,
+    min: number,
+    { max = Infinity, integer = false } = {}
+  ): number | undefined => {
+    const value = r[k];
+    if (!isFiniteNumber(value) || value < min || value > max) return undefined;
+    return integer && !Number.isInteger(value) ? undefined : value;
+  };
+
+  return {
+    max_new_tokens:
+      num("max_new_tokens", 1, { integer: true }) ?? defaults.max_new_tokens,
+    do_sample:
+      typeof r.do_sample === "boolean" ? r.do_sample : defaults.do_sample,
+    temperature: num("temperature", 0),
+    top_p: num("top_p", 0, { max: 1 }),
+    top_k: num("top_k", 0, { integer: true }),
+    repetition_penalty: num("repetition_penalty", Number.MIN_VALUE),
+    seed: num("seed", 0, { integer: true }),
+    stop: Array.isArray(r.stop)
+      ? r.stop.filter((s): s is string => typeof s === "string" && s !== "")
+      : undefined,
+    assistant_model: isAssistant(r.assistant_model)
+      ? r.assistant_model
+      : undefined,
+    num_assistant_tokens: num("num_assistant_tokens", 1, { integer: true }),
+  };
+}
+
+export function loadParams(model: ModelConfig): GenerationParams {
+  try {
+    const stored = localStorage.getItem(storageKey(model.slug));
+    if (stored) return sanitizeParams(JSON.parse(stored), model.generation);
+  } catch {
+    // unavailable storage or bad JSON: use the registry defaults
+  }
+  return model.generation;
+}
+
+export function saveParams(model: ModelConfig, params: GenerationParams): void {
+  try {
+    localStorage.setItem(storageKey(model.slug), JSON.stringify(params));
+  } catch {
+    // quota or privacy mode; settings just won't persist
+  }
+}
+
+export function clearParams(model: ModelConfig): void {
+  try {
+    localStorage.removeItem(storageKey(model.slug));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Generation settings for `model`, persisted per model in localStorage.
+ * Starts from the registry defaults (so server and first client render
+ * match) and swaps in the stored values after mount.
+ */
+export function useGenerationParams(model: ModelConfig) {
+  const [params, setParamsState] = useState<GenerationParams>(
+    model.generation
+  );
+
+  useEffect(() => {
+    setParamsState(loadParams(model));
+  }, [model]);
+
+  const setParams = useCallback(
+    (next: GenerationParams) => {
+      setParamsState(next);
+      saveParams(model, next);
+    },
+    [model]
+  );
+
+  const resetParams = useCallback(() => {
+    setParamsState(model.generation);
+    clearParams(model);
+  }, [model]);
+
+  return { params, setParams, resetParams };
+}
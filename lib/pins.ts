@@ -0,0 +1,117 @@
+"use client";
+
+/**
+ * Models pinned for offline use. Pinning downloads a model at the
+ * device/dtype its page will use (filling transformers.js's cache) and asks
+ * the browser to make the site's storage persistent, so cached weights
+ * aren't evicted under storage pressure. Pins are kept in localStorage.
+ */
+import { useEffect, useState } from "react";
+import { preferredBackend } from "@/lib/inference/backend";
+import { getInferenceClient, getModelManager } from "@/lib/inference/client";
+import {
+  modelKey,
+  toModelSpec,
+  type LoadProgress,
+  type ModelSpec,
+} from "@/lib/inference/protocol";
+import { stored, useStored } from "@/lib/local-store";
+import type { ModelConfig } from "@/lib/models";
+
+export type PinnedModel = { spec: ModelSpec; pinnedAt: number };
+
+const STORAGE_KEY = "pinned-models";
+
+function isPin(x: unknown): x is PinnedModel {
+  if (typeof x !== "object" || x === null) return false;
+  const { spec, pinnedAt } = x as Record<string, unknown>;
+  return (
+    typeof pinnedAt === "number" &&
+    typeof spec === "object" &&
+    spec !== null &&
+    typeof (spec as Record<string, unknown>).id === "string"
+  );
+}
+
+function readPins(): PinnedModel[] {
+  try {
+    const raw: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]"
+    );
+    return Array.isArray(raw) ? raw.filter(isPin) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePins(pins: PinnedModel[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+  } catch {
+    // pins just won't persist
+  }
+}
+
+const pinStore = stored({ load: readPins, save: writePins, fallback: [] });
+
+export function loadPins(): PinnedModel[] {
+  return pinStore.get();
+}
+
+function savePins(pins: PinnedModel[]): void {
+  pinStore.set(pins);
+}
+
+/** Asks the browser not to evict site storage; false when it declines. */
+async function persistStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+    return false;
+  }
+  return navigator.storage.persisted().then((already) =>
+    already ? true : navigator.storage.persist()
+  );
+}
+
+/**
+ * Downloads `model` and pins it, replacing any earlier pin of the same
+ * repo. The model is unloaded again unless it was already loaded.
+ */
+export async function pinModel(
+  model: ModelConfig,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<PinnedModel> {
+  const spec = toModelSpec(model, await preferredBackend(model));
+  const client = getInferenceClient();
+  const resident = getModelManager()
+    .list()
+    .some((r) => modelKey(r.spec) === modelKey(spec));
+  await client.download(spec, onProgress);
+  if (!resident) await client.dispose(spec);
+
+  const pin: PinnedModel = { spec, pinnedAt: Date.now() };
+  savePins([...loadPins().filter((p) => p.spec.id !== model.id), pin]);
+  await persistStorage();
+  return pin;
+}
+
+export function unpinModel(id: string): void {
+  savePins(loadPins().filter((p) => p.spec.id !== id));
+}
+
+/**
+ * Current pins, kept up to date, and whether the browser has agreed to
+ * keep site storage (`null` where that can't be asked).
+ */
+export function usePins() {
+  const pins = useStored(pinStore);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+
+  // Asked again whenever pins change: pinning requests persistence
+  useEffect(() => {
+    if (typeof navigator !== "undefined" && navigator.storage?.persisted) {
+      void navigator.storage.persisted().then(setPersisted);
+    }
+  }, [pins]);
+
+  return { pins, persisted };
+}
@@ -0,0 +1,46 @@
+/**
+ * What the service worker (`public/sw.js`) precaches so the app works
+ * offline: every route's HTML (plus the `/_next/static` files it references)
+ * and the onnxruntime-web WASM. The worker reads the list from
+ * `/precache.json` on install. Model files are cached separately, by
+ * transformers.js itself (see `lib/cache.ts` and `lib/pins.ts`).
+ */
+import { MODELS } from "@/lib/models";
+
+export const PRECACHE_PATH = "/precache.json";
+
+export type PrecacheList = {
+  /** Same-origin routes to cache with their static assets. */
+  shell: string[];
+  /** The ONNX runtime files transformers.js loads from its CDN. */
+  runtime: string[];
+};
+
+export const APP_SHELL_ROUTES: readonly string[] = [
+  "/",
+  "/batch",
+  "/benchmark",
+  "/cache",
+  "/compare",
+  "/embed",
+  "/eval",
+  "/memory",
+  "/openai",
+  "/speculative",
+  "/templates",
+  ...MODELS.flatMap((m) => [`/models/${m.slug}`, `/models/${m.slug}/inspect`]),
+];
+
+// transformers.js points onnxruntime-web at its own dist folder on jsDelivr
+// (`env.backends.onnx.wasm.wasmPaths`); the JSEP build serves wasm and WebGPU
+const ONNX_RUNTIME_FILES = [
+  "ort-wasm-simd-threaded.jsep.mjs",
+  "ort-wasm-simd-threaded.jsep.wasm",
+];
+
+export function onnxRuntimeUrls(transformersVersion: string): string[] {
+  const base =
+    "https://cdn.jsdelivr.net/npm/@huggingface/transformers@" +
+    `${transformersVersion}/dist/`;
+  return ONNX_RUNTIME_FILES.map((file) => `${base}${file}`);
+}
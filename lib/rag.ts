@@ -0,0 +1,257 @@
+"use client";
+
+/**
+ * Retrieval over user-provided documents. Text is split into overlapping
+ * chunks, embedded in the inference worker with `EMBEDDING_MODEL`, and kept
+ * in IndexedDB. Retrieval is a brute-force cosine search, which is plenty
+ * for the few thousand chunks a browser tab will hold.
+ */
+import {
+  changeFeed,
+  committed,
+  database,
+  request,
+  useLiveList,
+} from "@/lib/idb";
+import { getInferenceClient } from "@/lib/inference/client";
+import type { ChatMessage, ModelSpec } from "@/lib/inference/protocol";
+import { EMBEDDING_MODEL } from "@/lib/models";
+
+const DB_NAME = "llm-rag";
+const DB_VERSION = 1;
+const DOCUMENTS = "documents";
+const CHUNKS = "chunks";
+
+/** Chunks are embedded this many at a time. */
+const EMBED_BATCH = 16;
+
+export type RagDocument = {
+  id: number;
+  name: string;
+  addedAt: number;
+  chars: number;
+  chunks: number;
+};
+
+type StoredChunk = {
+  id?: number;
+  docId: number;
+  docName: string;
+  /** Position within the document, from 0. */
+  index: number;
+  text: string;
+  vector: Float32Array;
+};
+
+export type RetrievedChunk = {
+  /** 1-based number the model cites it by, e.g. `[1]`. */
+  n: number;
+  docName: string;
+  index: number;
+  text: string;
+  /** Cosine similarity to the question. */
+  score: number;
+};
+
+/** Chat-page setting: whether to retrieve, and how many chunks. */
+export type Retrieval = { enabled: boolean; topK: number };
+
+export const DEFAULT_RETRIEVAL: Retrieval = { enabled: false, topK: 3 };
+
+const embedder: ModelSpec = {
+  id: EMBEDDING_MODEL.id,
+  task: EMBEDDING_MODEL.task,
+  device: EMBEDDING_MODEL.device,
+  dtype: EMBEDDING_MODEL.dtype,
+};
+
+const openDb = database(DB_NAME, DB_VERSION, (db) => {
+  db.createObjectStore(DOCUMENTS, { keyPath: "id", autoIncrement: true });
+  db.createObjectStore(CHUNKS, {
+    keyPath: "id",
+    autoIncrement: true,
+  }).createIndex("docId", "docId");
+});
+const changes = changeFeed();
+
+/**
+ * Splits `text` into chunks of about `size` characters, breaking between
+ * paragraphs where possible. Each chunk repeats the last `overlap`
+ * characters of the previous one so a sentence cut at a boundary is still
+ * found whole.
+ */
+export function chunkText(text: string, size = 800, overlap = 120): string[] {
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p !== "");
+
+  // Paragraphs longer than a chunk are cut at sentence ends (or hard cut)
+  const pieces: string[] = [];
+  for (const p of paragraphs) {
+    let rest = p;
+    while (rest.length > size) {
+      const window = rest.slice(0, size);
+      const cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+      const end = cut > size / 2 ? cut + 1 : size;
+      pieces.push(rest.slice(0, end).trim());
+      rest = rest.slice(end).trim();
+    }
+    if (rest) pieces.push(rest);
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > size) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      const space = tail.indexOf(" ");
+      current = space === -1 ? "" : tail.slice(space + 1);
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Chunks, embeds and stores a document. `onProgress` reports chunks
+ * embedded so far; the first call also downloads the embedding model.
+ */
+export async function addDocument(
+  name: string,
+  text: string,
+  onProgress: (done: number, total: number) => void = () => {}
+): Promise<RagDocument> {
+  const texts = chunkText(text);
+  if (texts.length === 0) throw new Error(`${name} contains no text.`);
+
+  const client = getInferenceClient();
+  const vectors: number[][] = [];
+  onProgress(0, texts.length);
+  for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+    vectors.push(
+      ...(await client.embed(embedder, texts.slice(i, i + EMBED_BATCH)))
+    );
+    onProgress(vectors.length, texts.length);
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([DOCUMENTS, CHUNKS], "readwrite");
+  const doc: Omit<RagDocument, "id"> = {
+    name,
+    addedAt: Date.now(),
+    chars: text.length,
+    chunks: texts.length,
+  };
+  const id = (await request(tx.objectStore(DOCUMENTS).add(doc))) as number;
+  const chunks = tx.objectStore(CHUNKS);
+  texts.forEach((chunk, index) => {
+    chunks.add({
+      docId: id,
+      docName: name,
+      index,
+      text: chunk,
+      vector: Float32Array.from(vectors[index]),
+    } satisfies StoredChunk);
+  });
+  await committed(tx);
+  changes.notify();
+  return { id, ...doc };
+}
+
+export async function listDocuments(): Promise<RagDocument[]> {
+  const db = await openDb();
+  return request(
+    db.transaction(DOCUMENTS).objectStore(DOCUMENTS).getAll()
+  ) as Promise<RagDocument[]>;
+}
+
+export async function deleteDocument(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([DOCUMENTS, CHUNKS], "readwrite");
+  tx.objectStore(DOCUMENTS).delete(id);
+  const keys = await request(
+    tx.objectStore(CHUNKS).index("docId").getAllKeys(id)
+  );
+  for (const key of keys) tx.objectStore(CHUNKS).delete(key);
+  await committed(tx);
+  changes.notify();
+}
+
+function dot(a: Float32Array, b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Normalized embeddings from the index's model, e.g. to compare texts. */
+export function embedTexts(texts: string[]): Promise<number[][]> {
+  return getInferenceClient().embed(embedder, texts);
+}
+
+/** The `k` chunks closest to `query`, best first. */
+export async function retrieve(
+  query: string,
+  k: number
+): Promise<RetrievedChunk[]> {
+  const db = await openDb();
+  const all = (await request(
+    db.transaction(CHUNKS).objectStore(CHUNKS).getAll()
+  )) as StoredChunk[];
+  if (all.length === 0) return [];
+
+  const [q] = await embedTexts([query]);
+  // Vectors are normalized, so the dot product is the cosine similarity
+  return all
+    .map((c) => ({ chunk: c, score: dot(c.vector, q) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(({ chunk, score }, i) => ({
+      n: i + 1,
+      docName: chunk.docName,
+      index: chunk.index,
+      text: chunk.text,
+      score,
+    }));
+}
+
+/**
+ * Puts the numbered sources in front of the last user message, with an
+ * instruction to cite them as `[n]`. Only the prompt changes; the visible
+ * conversation keeps the question as typed.
+ */
+export function withSources(
+  messages: ChatMessage[],
+  sources: RetrievedChunk[]
+): ChatMessage[] {
+  if (sources.length === 0) return messages;
+  const last = messages.length - 1;
+  const context = sources
+    .map((s) => `[${s.n}] (${s.docName})\n${s.text}`)
+    .join("\n\n");
+  return messages.map((m, i) =>
+    i === last && m.role === "user"
+      ? {
+          role: "user",
+          content:
+            "Answer using the numbered sources below and cite them inline " +
+            "like [1]. If they don't contain the answer, say so.\n\n" +
+            `${context}\n\nQuestion: ${m.content}`,
+        }
+      : m
+  );
+}
+
+/** Source numbers cited as `[n]` in `text`. */
+export function citedSources(text: string): Set<number> {
+  return new Set([...text.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])));
+}
+
+/** All indexed documents, kept current as documents are added or deleted. */
+export function useDocuments() {
+  const { items: documents, error } = useLiveList(changes, listDocuments);
+  return { documents, error };
+}
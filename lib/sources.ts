@@ -0,0 +1,180 @@
+/**
+ * Where model files come from: the Hugging Face Hub (or a mirror with the
+ * same URL layout), the app's own `public/models` directory, or any other
+ * base URL laid out like it (`<base><owner>/<repo>/onnx/model_q4.onnx`).
+ * The setting is app-wide; the page stores it and the worker applies it to
+ * transformers.js's `env`.
+ */
+import { MODEL_CACHE_NAME } from "@/lib/cache";
+import { DTYPE_SUFFIX, HUB_HOST } from "@/lib/hub";
+import type { ModelDtype, ModelTask } from "@/lib/models";
+
+/**
+ * `prefer-local` tries the local directory first and downloads what isn't
+ * there; `hub` only downloads; `local-only` never leaves the local
+ * directory, for air-gapped deployments.
+ */
+export type SourceMode = "prefer-local" | "hub" | "local-only";
+
+export type ModelSource = {
+  mode: SourceMode;
+  /** Path (served by the app) or URL holding `<owner>/<repo>/` folders. */
+  localPath: string;
+  /** The Hub or a mirror, serving `<host><repo>/resolve/main/<file>`. */
+  remoteHost: string;
+};
+
+export const DEFAULT_MODEL_SOURCE: ModelSource = {
+  mode: "hub",
+  localPath: "/models/",
+  remoteHost: HUB_HOST,
+};
+
+const STORAGE_KEY = "model-source";
+
+function withTrailingSlash(s: string): string {
+  return s.endsWith("/") ? s : `${s}/`;
+}
+
+/** Trims the paths and gives them the trailing slash URLs are joined on. */
+export function normalizeSource(source: ModelSource): ModelSource {
+  return {
+    mode: source.mode,
+    localPath: withTrailingSlash(
+      source.localPath.trim() || DEFAULT_MODEL_SOURCE.localPath
+    ),
+    remoteHost: withTrailingSlash(source.remoteHost.trim() || HUB_HOST),
+  };
+}
+
+export function loadModelSource(): ModelSource {
+  try {
+    const raw: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "null"
+    );
+    if (typeof raw !== "object" || raw === null) return DEFAULT_MODEL_SOURCE;
+    const { mode, localPath, remoteHost } = raw as Record<string, unknown>;
+    return normalizeSource({
+      mode:
+        mode === "prefer-local" || mode === "hub" || mode === "local-only"
+          ? mode
+          : DEFAULT_MODEL_SOURCE.mode,
+      localPath: typeof localPath === "string" ? localPath : "",
+      remoteHost: typeof remoteHost === "string" ? remoteHost : "",
+    });
+  } catch {
+    return DEFAULT_MODEL_SOURCE;
+  }
+}
+
+export function saveModelSource(source: ModelSource): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(source));
+  } catch {
+    // setting just won't persist
+  }
+}
+
+export function localFileUrl(
+  source: ModelSource,
+  id: string,
+  file: string
+): string {
+  return `${source.localPath}${id}/${file}`;
+}
+
+/** Where the Hub (or mirror) serves `file`; also its browser-cache key. */
+export function remoteFileUrl(
+  source: ModelSource,
+  id: string,
+  file: string
+): string {
+  return `${source.remoteHost}${id}/resolve/main/${file}`;
+}
+
+/**
+ * The files a pipeline can't load without, as groups of alternatives:
+ * decoders are published as either `model` or `decoder_model_merged`.
+ */
+export function requiredFiles(
+  task: ModelTask,
+  dtype: ModelDtype
+): string[][] {
+  const suffix = DTYPE_SUFFIX[dtype];
+  const weights =
+    task === "text-generation"
+      ? [
+          `onnx/model${suffix}.onnx`,
+          `onnx/decoder_model_merged${suffix}.onnx`,
+        ]
+      : [`onnx/model${suffix}.onnx`];
+  return [
+    ["config.json"],
+    ["tokenizer.json"],
+    ["tokenizer_config.json"],
+    weights,
+  ];
+}
+
+async function exists(url: string): Promise<boolean> {
+  try {
+    const res = await fetch(url, { method: "HEAD" });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function isCached(urls: string[]): Promise<boolean> {
+  if (typeof caches === "undefined") return false;
+  try {
+    const cache = await caches.open(MODEL_CACHE_NAME);
+    for (const url of urls) {
+      if (await cache.match(url)) return true;
+    }
+  } catch {
+    // no usable cache
+  }
+  return false;
+}
+
+/**
+ * The required files of `id` at `dtype` that no enabled location (nor the
+ * browser cache) has, each listed by its first alternative.
+ */
+export async function findMissingFiles(
+  source: ModelSource,
+  id: string,
+  task: ModelTask,
+  dtype: ModelDtype
+): Promise<string[]> {
+  const missing: string[] = [];
+  for (const alternatives of requiredFiles(task, dtype)) {
+    let found = false;
+    for (const file of alternatives) {
+      const local = localFileUrl(source, id, file);
+      const remote = remoteFileUrl(source, id, file);
+      found =
+        (await isCached([local, remote])) ||
+        (source.mode !== "hub" && (await exists(local))) ||
+        (source.mode !== "local-only" && (await exists(remote)));
+      if (found) break;
+    }
+    if (!found) missing.push(alternatives[0]);
+  }
+  return missing;
+}
+
+/** Where `source` looks for `id`, for messages. */
+export function describeLocations(source: ModelSource, id: string): string {
+  const local = localFileUrl(source, id, "");
+  const remote = remoteFileUrl(source, id, "");
+  switch (source.mode) {
+    case "prefer-local":
+      return `${local} or ${remote}`;
+    case "hub":
+      return remote;
+    case "local-only":
+      return local;
+  }
+}
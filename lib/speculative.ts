@@ -0,0 +1,93 @@
+/**
+ * Speculative decoding on the page side: turning a model's registry draft
+ * pairings into generation parameters, and the figures a run is judged
+ * by. The decoding itself happens in the worker
+ * (`inference/speculative-decoder.ts`).
+ */
+import type {
+  GenerationResult,
+  SpeculativeStats,
+} from "@/lib/inference/protocol";
+import {
+  getModel,
+  type DraftModel,
+  type GenerationParams,
+  type ModelConfig,
+} from "@/lib/models";
+
+/** The registry pairing `params` draft with, if any. */
+export function selectedDraft(
+  model: ModelConfig,
+  params: GenerationParams
+): DraftModel | null {
+  const id = params.assistant_model?.id;
+  if (!id) return null;
+  return model.drafts?.find((d) => getModel(d.slug)?.id === id) ?? null;
+}
+
+/**
+ * `params` drafting with `draft` (on its registry backend, at the pair's
+ * lookahead), or decoding plainly when `draft` is `null`.
+ */
+export function withDraft(
+  params: GenerationParams,
+  draft: DraftModel | null
+): GenerationParams {
+  const model = draft && getModel(draft.slug);
+  if (!draft || !model) {
+    return {
+      ...params,
+      assistant_model: undefined,
+      num_assistant_tokens: undefined,
+    };
+  }
+  return {
+    ...params,
+    assistant_model: {
+      id: model.id,
+      device: model.device,
+      dtype: model.dtype,
+    },
+    num_assistant_tokens: draft.lookahead,
+  };
+}
+
+/** Share of drafted tokens the target kept; 0 before any were drafted. */
+export function acceptanceRate(stats: SpeculativeStats): number {
+  return stats.drafted === 0 ? 0 : stats.accepted / stats.drafted;
+}
+
+export type SpeedComparison = {
+  /** Assisted over plain tokens per second, prompt processing included. */
+  speedup: number;
+  acceptanceRate: number;
+  /** Tokens per target pass; plain decoding makes exactly 1. */
+  tokensPerPass: number;
+  /** Greedy decoding should give the same text either way. */
+  sameOutput: boolean;
+};
+
+function throughput(result: GenerationResult): number {
+  const { tokens, durationMs } = result.stats;
+  return durationMs > 0 ? tokens / durationMs : 0;
+}
+
+/** How an assisted run of a prompt did against a plain run of it. */
+export function compareRuns(
+  plain: GenerationResult,
+  assisted: GenerationResult
+): SpeedComparison {
+  const stats = assisted.speculative ?? {
+    drafted: 0,
+    accepted: 0,
+    targetPasses: assisted.stats.tokens,
+  };
+  const base = throughput(plain);
+  return {
+    speedup: base > 0 ? throughput(assisted) / base : 0,
+    acceptanceRate: acceptanceRate(stats),
+    tokensPerPass:
+      stats.targetPasses > 0 ? assisted.stats.tokens / stats.targetPasses : 0,
+    sameOutput: plain.text === assisted.text,
+  };
+}
@@ -0,0 +1,499 @@
+/**
+ * Incremental JSON recognizer for constrained decoding. `advance` feeds one
+ * character and returns the next state, or `null` when no JSON value that
+ * matches the schema can continue that way. States are immutable, so a
+ * caller can branch from one state into many candidate tokens cheaply.
+ *
+ * Everything in the schema subset but `pattern` is enforced while
+ * decoding; `validateJson` checks that afterwards. Bounded numbers are
+ * written without an exponent, so each prefix can be checked against the
+ * bounds.
+ */
+import { allowedTypes, type JsonSchema } from "./schema";
+
+/** Longest run of whitespace allowed between tokens (room for indentation). */
+const MAX_WHITESPACE = 16;
+/** Longest number literal, so digits can't run on forever. */
+const MAX_NUMBER_LENGTH = 24;
+
+type NumberPhase =
+  | "start"
+  | "sign"
+  | "int0"
+  | "int"
+  | "fracStart"
+  | "frac"
+  | "expStart"
+  | "expSign"
+  | "exp";
+
+type Frame =
+  /** Bottom of the stack; becomes `end` once the top-level value is done. */
+  | { kind: "root" }
+  | { kind: "end" }
+  /** A value is due here and hasn't started yet. */
+  | { kind: "value"; schema: JsonSchema }
+  | {
+      kind: "object";
+      schema: JsonSchema;
+      seen: readonly string[];
+      phase: "first" | "key" | "colon" | "value" | "next" | "comma";
+      key: string | null;
+    }
+  | {
+      kind: "array";
+      schema: JsonSchema;
+      count: number;
+      phase: "first" | "item" | "next" | "comma";
+    }
+  | {
+      kind: "string";
+      /** Allowed contents in escaped form; `null` for free text. */
+      options: readonly string[] | null;
+      /** Escaped contents so far; only tracked when `options` is set. */
+      buf: string;
+      /** 0 normal, 1 after `\`, 2-5 reading `\uXXXX` digits. */
+      escape: number;
+      length: number;
+      minLength: number;
+      maxLength: number;
+      isKey: boolean;
+    }
+  | {
+      kind: "number";
+      integer: boolean;
+      phase: NumberPhase;
+      /** The literal so far. */
+      text: string;
+      minimum: number;
+      maximum: number;
+    }
+  /** Matches one of a fixed set of JSON texts (`true`, an enum value...). */
+  | { kind: "literal"; options: readonly string[]; pos: number };
+
+export type ConstraintState = {
+  readonly stack: readonly Frame[];
+  /** Consecutive whitespace characters just consumed. */
+  readonly ws: number;
+};
+
+type Stack = readonly Frame[];
+
+const WHITESPACE = new Set([" ", "\n", "\r", "\t"]);
+const DIGITS = new Set("0123456789");
+const HEX = new Set("0123456789abcdefABCDEF");
+const SIMPLE_ESCAPES = new Set('"\\/bfnrt');
+
+export function initialState(schema: JsonSchema): ConstraintState {
+  return { stack: [{ kind: "root" }, { kind: "value", schema }], ws: 0 };
+}
+
+function replaceTop(stack: Stack, frame: Frame): Stack {
+  return [...stack.slice(0, -1), frame];
+}
+
+function top(stack: Stack): Frame {
+  return stack[stack.length - 1];
+}
+
+/** Property names still allowed, escaped; `null` when any name is. */
+function keyOptions(
+  schema: JsonSchema,
+  seen: readonly string[]
+): string[] | null {
+  if (!schema.properties) return null;
+  const names = new Set([
+    ...Object.keys(schema.properties),
+    ...(schema.required ?? []),
+  ]);
+  return [...names]
+    .filter((n) => !seen.includes(n))
+    .map((n) => JSON.stringify(n).slice(1, -1));
+}
+
+function requiredSatisfied(schema: JsonSchema, seen: readonly string[]) {
+  return (schema.required ?? []).every((k) => seen.includes(k));
+}
+
+function keyFrame(options: string[] | null): Frame {
+  return {
+    kind: "string",
+    options,
+    buf: "",
+    escape: 0,
+    length: 0,
+    minLength: 0,
+    maxLength: Infinity,
+    isKey: true,
+  };
+}
+
+/** Pops a finished value and moves its parent on. */
+function complete(stack: Stack, key: string | null = null): Stack {
+  const rest = stack.slice(0, -1);
+  const parent = top(rest);
+  switch (parent.kind) {
+    case "root":
+      return replaceTop(rest, { kind: "end" });
+    case "object":
+      return parent.phase === "key"
+        ? replaceTop(rest, {
+            ...parent,
+            phase: "colon",
+            key,
+            seen: key === null ? parent.seen : [...parent.seen, key],
+          })
+        : replaceTop(rest, { ...parent, phase: "next", key: null });
+    case "array":
+      return replaceTop(rest, {
+        ...parent,
+        phase: "next",
+        count: parent.count + 1,
+      });
+    default:
+      throw new Error(`A ${parent.kind} frame can't hold a value`);
+  }
+}
+
+/** Whether a number or literal on top of the stack may end here. */
+function canEnd(frame: Frame): boolean {
+  if (frame.kind === "number") {
+    const value = Number(frame.text);
+    return (
+      ["int0", "int", "frac", "exp"].includes(frame.phase) &&
+      value >= frame.minimum &&
+      value <= frame.maximum
+    );
+  }
+  if (frame.kind === "literal") {
+    return frame.options.some((o) => o.length === frame.pos);
+  }
+  return false;
+}
+
+function isBounded(frame: Extract<Frame, { kind: "number" }>): boolean {
+  return frame.minimum > -Infinity || frame.maximum < Infinity;
+}
+
+/**
+ * Whether some number literal starting with `text` (no exponent, at most
+ * `MAX_NUMBER_LENGTH` long) lies within `[minimum, maximum]`. Every
+ * completion of a prefix lies in one of a few half-open magnitude ranges:
+ * `12` reaches [12, 13), [120, 130)... and `1.5` reaches [1.5, 1.6).
+ */
+function numberReachable(
+  frame: Extract<Frame, { kind: "number" }>,
+  text: string
+): boolean {
+  if (!isBounded(frame)) return true;
+  const negative = text.startsWith("-");
+  const digits = negative ? text.slice(1) : text;
+  // A negative value is in range when its magnitude is in the mirrored one
+  const lo = negative ? -frame.maximum : frame.minimum;
+  const hi = negative ? -frame.minimum : frame.maximum;
+  const overlaps = (from: number, to: number) =>
+    frame.integer
+      ? Math.max(from, Math.ceil(lo)) <= Math.min(to - 1, Math.floor(hi))
+      : from <= hi && to > lo;
+
+  if (digits === "") return overlaps(0, Infinity);
+  const dot = digits.indexOf(".");
+  if (dot !== -1) {
+    const decimals = digits.length - dot - 1;
+    const from = Number(decimals === 0 ? digits.slice(0, dot) : digits);
+    return overlaps(from, from + 10 ** -decimals);
+  }
+  if (digits === "0") return overlaps(0, 1);
+  const lead = Number(digits);
+  const room = MAX_NUMBER_LENGTH - text.length;
+  for (let more = 0; more <= room; more++) {
+    if (overlaps(lead * 10 ** more, (lead + 1) * 10 ** more)) return true;
+  }
+  return false;
+}
+
+function numberStep(
+  frame: Extract<Frame, { kind: "number" }>,
+  ch: string
+): NumberPhase | null {
+  const digit = DIGITS.has(ch);
+  const exp = (ch === "e" || ch === "E") && !isBounded(frame);
+  switch (frame.phase) {
+    case "start":
+      if (ch === "-") return "sign";
+      return ch === "0" ? "int0" : digit ? "int" : null;
+    case "sign":
+      return ch === "0" ? "int0" : digit ? "int" : null;
+    case "int0":
+    case "int":
+      if (digit && frame.phase === "int") return "int";
+      if (frame.integer) return null;
+      return ch === "." ? "fracStart" : exp ? "expStart" : null;
+    case "fracStart":
+      return digit ? "frac" : null;
+    case "frac":
+      if (digit) return "frac";
+      return exp ? "expStart" : null;
+    case "expStart":
+      if (ch === "+" || ch === "-") return "expSign";
+      return digit ? "exp" : null;
+    case "expSign":
+    case "exp":
+      return digit ? "exp" : null;
+  }
+}
+
+/** Starts the value frame on top of `stack` with its first character. */
+function startValue(
+  stack: Stack,
+  schema: JsonSchema,
+  ch: string
+): Stack | null {
+  if (schema.const !== undefined || schema.enum) {
+    const options = (schema.enum ?? [schema.const]).map((v) =>
+      JSON.stringify(v)
+    );
+    return feed(replaceTop(stack, { kind: "literal", options, pos: 0 }), ch);
+  }
+
+  const types = allowedTypes(schema);
+  if (ch === "{" && types.has("object")) {
+    return replaceTop(stack, {
+      kind: "object",
+      schema,
+      seen: [],
+      phase: "first",
+      key: null,
+    });
+  }
+  if (ch === "[" && types.has("array")) {
+    if (schema.maxItems !== undefined && schema.maxItems < 0) return null;
+    return replaceTop(stack, {
+      kind: "array",
+      schema,
+      count: 0,
+      phase: "first",
+    });
+  }
+  if (ch === '"' && types.has("string")) {
+    return replaceTop(stack, {
+      kind: "string",
+      options: null,
+      buf: "",
+      escape: 0,
+      length: 0,
+      minLength: schema.minLength ?? 0,
+      maxLength: schema.maxLength ?? Infinity,
+      isKey: false,
+    });
+  }
+  const numeric = types.has("number") || types.has("integer");
+  if ((ch === "-" || DIGITS.has(ch)) && numeric) {
+    const frame: Frame = {
+      kind: "number",
+      integer: !types.has("number"),
+      phase: "start",
+      text: "",
+      minimum: schema.minimum ?? -Infinity,
+      maximum: schema.maximum ?? Infinity,
+    };
+    return feed(replaceTop(stack, frame), ch);
+  }
+  if ((ch === "t" || ch === "f") && types.has("boolean")) {
+    return feed(
+      replaceTop(stack, {
+        kind: "literal",
+        options: ["true", "false"],
+        pos: 0,
+      }),
+      ch
+    );
+  }
+  if (ch === "n" && types.has("null")) {
+    return feed(
+      replaceTop(stack, { kind: "literal", options: ["null"], pos: 0 }),
+      ch
+    );
+  }
+  return null;
+}
+
+function stringStep(
+  stack: Stack,
+  frame: Extract<Frame, { kind: "string" }>,
+  ch: string
+): Stack | null {
+  const extend = (next: Partial<typeof frame>): Stack | null => {
+    const buf = frame.options ? frame.buf + ch : "";
+    if (frame.options && !frame.options.some((o) => o.startsWith(buf))) {
+      return null;
+    }
+    const updated = { ...frame, buf, ...next };
+    return updated.length > updated.maxLength
+      ? null
+      : replaceTop(stack, updated);
+  };
+
+  if (frame.escape === 1) {
+    if (SIMPLE_ESCAPES.has(ch)) {
+      return extend({ escape: 0, length: frame.length + 1 });
+    }
+    return ch === "u" ? extend({ escape: 2 }) : null;
+  }
+  if (frame.escape >= 2) {
+    if (!HEX.has(ch)) return null;
+    return frame.escape === 5
+      ? extend({ escape: 0, length: frame.length + 1 })
+      : extend({ escape: frame.escape + 1 });
+  }
+
+  if (ch === '"') {
+    if (frame.options && !frame.options.includes(frame.buf)) return null;
+    if (frame.length < frame.minLength) return null;
+    const key: string | null =
+      frame.isKey && frame.options ? JSON.parse(`"${frame.buf}"`) : null;
+    return complete(stack, key);
+  }
+  if (ch === "\\") return extend({ escape: 1 });
+  if (ch < " ") return null;
+  return extend({ length: frame.length + 1 });
+}
+
+/** Feeds one character to the stack; `null` when it can't be accepted. */
+function feed(stack: Stack, ch: string): Stack | null {
+  const frame = top(stack);
+  const ws = WHITESPACE.has(ch);
+
+  switch (frame.kind) {
+    case "root":
+      return null;
+
+    case "end":
+      return ws ? stack : null;
+
+    case "value":
+      return ws ? stack : startValue(stack, frame.schema, ch);
+
+    case "object": {
+      // While a key or value is open its own frame is on top, so here we
+      // are between tokens
+      if (ws) return stack;
+      const { schema, seen, phase } = frame;
+      const options = keyOptions(schema, seen);
+      const closeOk = requiredSatisfied(schema, seen);
+      if (phase === "first" || phase === "comma") {
+        if (ch === "}" && phase === "first" && closeOk) return complete(stack);
+        if (ch !== '"' || options?.length === 0) return null;
+        return [
+          ...replaceTop(stack, { ...frame, phase: "key" }),
+          keyFrame(options),
+        ];
+      }
+      if (phase === "colon") {
+        if (ch !== ":") return null;
+        const sub =
+          (frame.key !== null && schema.properties?.[frame.key]) || {};
+        return [
+          ...replaceTop(stack, { ...frame, phase: "value" }),
+          { kind: "value", schema: sub },
+        ];
+      }
+      if (phase === "next") {
+        if (ch === "}") return closeOk ? complete(stack) : null;
+        if (ch === "," && options?.length !== 0) {
+          return replaceTop(stack, { ...frame, phase: "comma" });
+        }
+      }
+      return null;
+    }
+
+    case "array": {
+      const { schema, count, phase } = frame;
+      if (ws) return stack;
+      const min = schema.minItems ?? 0;
+      const max = schema.maxItems ?? Infinity;
+      if (phase === "first" || phase === "comma") {
+        if (ch === "]" && phase === "first" && min <= 0) return complete(stack);
+        if (count >= max) return null;
+        return feed(
+          [
+            ...replaceTop(stack, { ...frame, phase: "item" }),
+            { kind: "value", schema: schema.items ?? {} },
+          ],
+          ch
+        );
+      }
+      if (phase === "next") {
+        if (ch === "]") return count >= min ? complete(stack) : null;
+        if (ch === ",") {
+          if (count >= max) return null;
+          return replaceTop(stack, { ...frame, phase: "comma" });
+        }
+      }
+      return null;
+    }
+
+    case "string":
+      return stringStep(stack, frame, ch);
+
+    case "number": {
+      const phase = numberStep(frame, ch);
+      const text = frame.text + ch;
+      if (
+        phase &&
+        text.length <= MAX_NUMBER_LENGTH &&
+        numberReachable(frame, text)
+      ) {
+        return replaceTop(stack, { ...frame, phase, text });
+      }
+      // Anything else ends the number and belongs to the parent
+      return canEnd(frame) ? feed(complete(stack), ch) : null;
+    }
+
+    case "literal": {
+      const options = frame.options.filter((o) => o[frame.pos] === ch);
+      if (options.length > 0) {
+        return replaceTop(stack, { ...frame, options, pos: frame.pos + 1 });
+      }
+      return canEnd(frame) ? feed(complete(stack), ch) : null;
+    }
+  }
+}
+
+export function advance(
+  state: ConstraintState,
+  ch: string
+): ConstraintState | null {
+  const isWs = WHITESPACE.has(ch);
+  if (isWs && state.ws >= MAX_WHITESPACE) {
+    // Whitespace inside a string is content, not padding
+    if (top(state.stack).kind !== "string") return null;
+  }
+  const stack = feed(state.stack, ch);
+  if (!stack) return null;
+  return { stack, ws: isWs && top(stack).kind !== "string" ? state.ws + 1 : 0 };
+}
+
+export function advanceText(
+  state: ConstraintState,
+  text: string
+): ConstraintState | null {
+  let s: ConstraintState | null = state;
+  for (const ch of text) {
+    s = advance(s, ch);
+    if (!s) return null;
+  }
+  return s;
+}
+
+/** Whether the text so far is a complete value that matches the schema. */
+export function isComplete(state: ConstraintState): boolean {
+  let stack = state.stack;
+  while (canEnd(top(stack))) stack = complete(stack);
+  return top(stack).kind === "end";
+}
+
+/** Complete, with nothing but whitespace allowed after it. */
+export function isFinished(state: ConstraintState): boolean {
+  return top(state.stack).kind === "end";
+}
@@ -0,0 +1,213 @@
+/**
+ * The JSON Schema subset used for structured output: enough to describe
+ * typical records (objects, arrays, enums, scalars with simple bounds).
+ * Constrained decoding enforces all of it but `pattern`; `validateJson`
+ * checks everything listed here.
+ */
+
+export type JsonType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export type JsonSchema = {
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Only `false` (the default when `properties` is given) is enforced. */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  title?: string;
+  description?: string;
+};
+
+export const ALL_JSON_TYPES: readonly JsonType[] = [
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+];
+
+/** The types a value may have under `schema`; every type when unspecified. */
+export function allowedTypes(schema: JsonSchema): ReadonlySet<JsonType> {
+  if (schema.type === undefined) return new Set(ALL_JSON_TYPES);
+  return new Set(Array.isArray(schema.type) ? schema.type : [schema.type]);
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+/** The first `pattern` in `schema` that isn't a valid regular expression. */
+export function invalidPattern(schema: JsonSchema): string | null {
+  if (schema.pattern !== undefined && compilePattern(schema.pattern) === null) {
+    return schema.pattern;
+  }
+  const subschemas = [
+    ...Object.values(schema.properties ?? {}),
+    ...(schema.items ? [schema.items] : []),
+  ];
+  for (const sub of subschemas) {
+    const pattern = invalidPattern(sub);
+    if (pattern !== null) return pattern;
+  }
+  return null;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every way `value` breaks `schema`, as `path: problem` lines; empty when
+ * it is valid.
+ */
+export function validateJson(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.const !== undefined) {
+    if (JSON.stringify(value) !== JSON.stringify(schema.const)) {
+      errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+    return errors;
+  }
+  if (schema.enum) {
+    const json = JSON.stringify(value);
+    if (!schema.enum.some((option) => JSON.stringify(option) === json)) {
+      const options = schema.enum.map((o) => JSON.stringify(o)).join(", ");
+      errors.push(`${path}: must be one of ${options}`);
+    }
+    return errors;
+  }
+
+  const types = allowedTypes(schema);
+  const actual = typeOf(value);
+  const typeOk =
+    types.has(actual) || (actual === "integer" && types.has("number"));
+  if (!typeOk) {
+    errors.push(`${path}: expected ${[...types].join(" or ")}, got ${actual}`);
+    return errors;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+    const { pattern } = schema;
+    const re = pattern === undefined ? null : compilePattern(pattern);
+    if (pattern !== undefined && !re) {
+      errors.push(`${path}: the schema's /${pattern}/ is not a valid pattern`);
+    } else if (re && !re.test(value)) {
+      errors.push(`${path}: does not match /${pattern}/`);
+    }
+  } else if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: below the minimum of ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: above the maximum of ${schema.maximum}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(...validateJson(item, schema.items!, `${path}[${i}]`))
+      );
+    }
+  } else if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}: missing "${key}"`);
+    }
+    if (schema.properties) {
+      for (const [key, v] of Object.entries(record)) {
+        const sub = schema.properties[key];
+        if (sub) {
+          errors.push(...validateJson(v, sub, `${path}.${key}`));
+        } else if (schema.additionalProperties !== true) {
+          errors.push(`${path}: unexpected property "${key}"`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+export type ParsedOutput =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string };
+
+/**
+ * Parses model output as JSON. Tolerates the usual wrapping (code fences,
+ * a sentence before or after) by falling back to the outermost `{...}` or
+ * `[...]`.
+ */
+export function parseJsonOutput(text: string): ParsedOutput {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch (err: unknown) {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+    if (start !== -1 && end > start) {
+      try {
+        return { ok: true, value: JSON.parse(trimmed.slice(start, end + 1)) };
+      } catch {
+        // report the original error below
+      }
+    }
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/** Prompt text asking for JSON that matches `schema`. */
+export function schemaInstruction(schema: JsonSchema): string {
+  return (
+    "Reply with only a JSON value, no other text, that matches this JSON " +
+    `Schema:\n${JSON.stringify(schema)}`
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import {
+  generatedText,
+  type ChatMessage,
+  type FinishReason,
+  type GenerateInput,
+  type GenerationResult,
+} from "@/lib/inference/protocol";
+import type { Inference } from "@/lib/inference/useInference";
+import type { GenerationParams, ModelConfig } from "@/lib/models";
+import {
+  invalidPattern,
+  parseJsonOutput,
+  schemaInstruction,
+  validateJson,
+  type JsonSchema,
+} from "./schema";
+
+/**
+ * `constrained` masks invalid tokens while decoding, so one attempt always
+ * parses; `retry` generates freely and re-asks until the output validates,
+ * which is faster per token on large vocabularies.
+ */
+export type StructuredStrategy = "constrained" | "retry";
+
+export type StructuredOutput = {
+  enabled: boolean;
+  /** The JSON Schema as typed; parsed on every change. */
+  schemaText: string;
+  strategy: StructuredStrategy;
+  /** Upper bound on generations per request in `retry` mode. */
+  maxAttempts: number;
+};
+
+export const DEFAULT_STRUCTURED_OUTPUT: StructuredOutput = {
+  enabled: false,
+  schemaText: JSON.stringify(
+    {
+      type: "object",
+      properties: {
+        name: { type: "string", maxLength: 40 },
+        sentiment: { enum: ["positive", "neutral", "negative"] },
+        score: { type: "number", minimum: 0, maximum: 1 },
+      },
+      required: ["name", "sentiment", "score"],
+    },
+    null,
+    2
+  ),
+  strategy: "constrained",
+  maxAttempts: 3,
+};
+
+/** How the last structured request went. */
+export type StructuredReport = {
+  strategy: StructuredStrategy;
+  attempts: number;
+  valid: boolean;
+  /** Why the final attempt stopped generating. */
+  finishReason: FinishReason;
+  /** The parsed output, when it parsed at all. */
+  value?: unknown;
+  /** Parse or validation problems with the final attempt. */
+  errors: string[];
+};
+
+type ParsedSchema =
+  | { schema: JsonSchema; error: null }
+  | { schema: null; error: string };
+
+function parseSchema(text: string): ParsedSchema {
+  try {
+    const schema: unknown = JSON.parse(text);
+    if (
+      typeof schema !== "object" ||
+      schema === null ||
+      Array.isArray(schema)
+    ) {
+      return { schema: null, error: "The schema must be a JSON object." };
+    }
+    const pattern = invalidPattern(schema as JsonSchema);
+    if (pattern !== null) {
+      return {
+        schema: null,
+        error: `/${pattern}/ is not a valid regular expression.`,
+      };
+    }
+    return { schema: schema as JsonSchema, error: null };
+  } catch (err: unknown) {
+    return {
+      schema: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/** Appends `text` to the last user message. */
+function withInstruction(
+  messages: ChatMessage[],
+  text: string
+): ChatMessage[] {
+  const last = messages.length - 1;
+  return messages.map((m, i) =>
+    i === last && m.role === "user"
+      ? { role: "user", content: `${m.content}\n\n${text}` }
+      : m
+  );
+}
+
+function check(
+  text: string,
+  schema: JsonSchema
+): Pick<StructuredReport, "valid" | "value" | "errors"> {
+  const parsed = parseJsonOutput(text);
+  if (!parsed.ok) {
+    return { valid: false, errors: [`Not valid JSON: ${parsed.error}`] };
+  }
+  const errors = validateJson(parsed.value, schema);
+  return { valid: errors.length === 0, value: parsed.value, errors };
+}
+
+/**
+ * Wraps `inference` so every `generate` call asks for JSON matching the
+ * configured schema. Chat models also get the schema in the prompt (only
+ * the prompt: the visible conversation is unchanged); completion prompts
+ * are left alone and rely on the constraint or on resampling.
+ *
+ * Passes `inference` through untouched while disabled or while the schema
+ * doesn't parse.
+ */
+export function useStructuredOutput(
+  model: ModelConfig,
+  inference: Inference,
+  settings: StructuredOutput
+) {
+  const { schema, error: schemaError } = useMemo(
+    () => parseSchema(settings.schemaText),
+    [settings.schemaText]
+  );
+  const [report, setReport] = useState<StructuredReport | null>(null);
+  const { generate } = inference;
+  const active = settings.enabled && schema !== null;
+  const { strategy, maxAttempts } = settings;
+
+  const structuredGenerate = useCallback(
+    async (
+      input: GenerateInput,
+      params: GenerationParams = model.generation
+    ): Promise<GenerationResult | null> => {
+      if (!active || !schema) return generate(input, params);
+      setReport(null);
+
+      const instruction = schemaInstruction(schema);
+      let prompt: GenerateInput =
+        typeof input === "string"
+          ? input
+          : withInstruction(input, instruction);
+
+      if (strategy === "constrained") {
+        const result = await generate(prompt, {
+          ...params,
+          json_schema: schema,
+        });
+        if (result) {
+          setReport({
+            strategy,
+            attempts: 1,
+            finishReason: result.finishReason,
+            ...check(generatedText(input, result), schema),
+          });
+        }
+        return result;
+      }
+
+      let runParams = params;
+      for (let attempt = 1; ; attempt++) {
+        const result = await generate(prompt, runParams);
+        if (!result) return null;
+        const text = generatedText(prompt, result);
+        const outcome = check(text, schema);
+        setReport({
+          strategy,
+          attempts: attempt,
+          finishReason: result.finishReason,
+          ...outcome,
+        });
+        if (outcome.valid || result.cancelled || attempt >= maxAttempts) {
+          return result;
+        }
+
+        if (typeof prompt === "string") {
+          // Completion models can't take feedback; sample something else
+          runParams = {
+            ...runParams,
+            do_sample: true,
+            seed: (runParams.seed ?? 0) + 1,
+          };
+        } else {
+          prompt = [
+            ...prompt,
+            { role: "assistant", content: text },
+            {
+              role: "user",
+              content:
+                `That reply is invalid:\n${outcome.errors.join("\n")}\n\n` +
+                instruction,
+            },
+          ];
+        }
+      }
+    },
+    [active, schema, strategy, maxAttempts, generate, model.generation]
+  );
+
+  return {
+    inference: active
+      ? { ...inference, generate: structuredGenerate }
+      : inference,
+    report,
+    schemaError,
+  };
+}
@@ -0,0 +1,224 @@
+"use client";
+
+/**
+ * Prompt templates: named prompts with `{{variable}}` placeholders, optional
+ * few-shot examples and an optional target model. They are kept in
+ * localStorage and shared as JSON files (`exportTemplates` /
+ * `parseTemplates`).
+ *
+ * A template renders to the same `GenerateInput` a panel would send: a
+ * message list for chat models (system prompt, one user/assistant pair per
+ * example, then the body as the user turn) or one string for completion
+ * models (examples as input/output blocks ahead of the body).
+ */
+import { useMemo } from "react";
+import type { ChatMessage, GenerateInput } from "@/lib/inference/protocol";
+import { stored, useStored } from "@/lib/local-store";
+import type { ModelMode } from "@/lib/models";
+
+export type FewShotExample = { input: string; output: string };
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  /** Slug of the model it was written for; `null` for any model. */
+  model: string | null;
+  /** System message for chat models; ignored by completion models. */
+  system: string;
+  body: string;
+  examples: FewShotExample[];
+  updatedAt: number;
+};
+
+/** What `exportTemplates` writes and `parseTemplates` reads. */
+export type TemplateFile = { version: 1; templates: PromptTemplate[] };
+
+const STORAGE_KEY = "prompt-templates";
+const VARIABLE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+export function newTemplate(model: string | null = null): PromptTemplate {
+  return {
+    id: crypto.randomUUID(),
+    name: "Untitled template",
+    description: "",
+    model,
+    system: "",
+    body: "",
+    examples: [],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Variable names in order of first appearance, across the system prompt,
+ * the examples and the body.
+ */
+export function templateVariables(template: PromptTemplate): string[] {
+  const texts = [
+    template.system,
+    ...template.examples.flatMap((e) => [e.input, e.output]),
+    template.body,
+  ];
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+/** Replaces each `{{name}}`; unknown names become empty strings. */
+export function fillTemplate(
+  text: string,
+  values: Record<string, string>
+): string {
+  return text.replace(VARIABLE, (_, name: string) => values[name] ?? "");
+}
+
+export function renderTemplate(
+  template: PromptTemplate,
+  values: Record<string, string>,
+  mode: ModelMode
+): GenerateInput {
+  const fill = (text: string) => fillTemplate(text, values);
+  const examples = template.examples.map((e) => ({
+    input: fill(e.input),
+    output: fill(e.output),
+  }));
+  const body = fill(template.body);
+
+  if (mode === "completion") {
+    return [...examples.map((e) => `${e.input}\n${e.output}`), body].join(
+      "\n\n"
+    );
+  }
+  const system = fill(template.system).trim();
+  const messages: ChatMessage[] = system
+    ? [{ role: "system", content: system }]
+    : [];
+  for (const e of examples) {
+    messages.push({ role: "user", content: e.input });
+    messages.push({ role: "assistant", content: e.output });
+  }
+  messages.push({ role: "user", content: body });
+  return messages;
+}
+
+function isExample(x: unknown): x is FewShotExample {
+  if (typeof x !== "object" || x === null) return false;
+  const { input, output } = x as Record<string, unknown>;
+  return typeof input === "string" && typeof output === "string";
+}
+
+/** Fills in optional fields; `null` when `x` has no name or body. */
+function toTemplate(x: unknown): PromptTemplate | null {
+  if (typeof x !== "object" || x === null) return null;
+  const t = x as Record<string, unknown>;
+  if (typeof t.name !== "string" || typeof t.body !== "string") return null;
+  return {
+    id: typeof t.id === "string" && t.id ? t.id : crypto.randomUUID(),
+    name: t.name,
+    description: typeof t.description === "string" ? t.description : "",
+    model: typeof t.model === "string" ? t.model : null,
+    system: typeof t.system === "string" ? t.system : "",
+    body: t.body,
+    examples: Array.isArray(t.examples) ? t.examples.filter(isExample) : [],
+    updatedAt: typeof t.updatedAt === "number" ? t.updatedAt : Date.now(),
+  };
+}
+
+function readTemplates(): PromptTemplate[] {
+  try {
+    const raw: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]"
+    );
+    if (!Array.isArray(raw)) return [];
+    return raw.map(toTemplate).filter((t) => t !== null);
+  } catch {
+    return [];
+  }
+}
+
+function writeTemplates(templates: PromptTemplate[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // templates just won't persist
+  }
+}
+
+const templateStore = stored({
+  load: readTemplates,
+  save: writeTemplates,
+  fallback: [],
+});
+
+export function loadTemplates(): PromptTemplate[] {
+  return templateStore.get();
+}
+
+function saveTemplates(templates: PromptTemplate[]): void {
+  templateStore.set(templates);
+}
+
+/** Adds `template`, or replaces the stored one with the same id. */
+export function saveTemplate(template: PromptTemplate): void {
+  const saved = { ...template, updatedAt: Date.now() };
+  const rest = loadTemplates().filter((t) => t.id !== template.id);
+  saveTemplates([...rest, saved]);
+}
+
+export function deleteTemplate(id: string): void {
+  saveTemplates(loadTemplates().filter((t) => t.id !== id));
+}
+
+export function exportTemplates(templates: PromptTemplate[]): string {
+  const file: TemplateFile = { version: 1, templates };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Templates from an exported file (or a bare array of them). Throws when
+ * the JSON is malformed or holds no usable template.
+ */
+export function parseTemplates(json: string): PromptTemplate[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Not a JSON file.");
+  }
+  const list =
+    typeof raw === "object" && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>).templates
+      : raw;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a "templates" array.');
+  }
+  const templates = list.map(toTemplate).filter((t) => t !== null);
+  if (templates.length === 0) {
+    throw new Error("No templates with a name and a body were found.");
+  }
+  return templates;
+}
+
+/**
+ * Adds imported templates to the library. One whose id is already stored
+ * replaces it, so re-importing a teammate's updated file doesn't duplicate.
+ */
+export function importTemplates(imported: PromptTemplate[]): void {
+  const ids = new Set(imported.map((t) => t.id));
+  saveTemplates([
+    ...loadTemplates().filter((t) => !ids.has(t.id)),
+    ...imported,
+  ]);
+}
+
+/** Stored templates by name, kept up to date. */
+export function useTemplates(): PromptTemplate[] {
+  const templates = useStored(templateStore);
+  return useMemo(
+    () => [...templates].sort((a, b) => a.name.localeCompare(b.name)),
+    [templates]
+  );
+}
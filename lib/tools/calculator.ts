@@ -0,0 +1,142 @@
+/**
+ * Arithmetic for the calculator tool. A small recursive-descent parser, so
+ * model output never reaches `eval`.
+ *
+ *   expr    = term (("+" | "-") term)*
+ *   term    = unary (("*" | "/" | "%") unary)*
+ *   unary   = ("+" | "-") unary | power
+ *   power   = primary ("^" unary)?
+ *   primary = number | name | name "(" expr ("," expr)* ")" | "(" expr ")"
+ */
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+};
+
+const TOKEN =
+  /\s*(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),])/iy;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (expression.slice(TOKEN.lastIndex).trim() === "") break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected "${expression.slice(start).trim()[0]}"`);
+    }
+    // `**` is an alias for `^`
+    tokens.push(match[1] === "**" ? "^" : match[1]);
+  }
+  return tokens;
+}
+
+export function evaluate(expression: string): number {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = (): string | undefined => tokens[pos];
+  function expect(token: string): void {
+    if (tokens[pos] !== token) {
+      throw new Error(`Expected "${token}" but found ${describe(tokens[pos])}`);
+    }
+    pos++;
+  }
+
+  function expr(): number {
+    let value = term();
+    while (peek() === "+" || peek() === "-") {
+      value = tokens[pos++] === "+" ? value + term() : value - term();
+    }
+    return value;
+  }
+
+  function term(): number {
+    let value = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = tokens[pos++];
+      const rhs = unary();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  }
+
+  function unary(): number {
+    if (peek() === "-") {
+      pos++;
+      return -unary();
+    }
+    if (peek() === "+") {
+      pos++;
+      return unary();
+    }
+    return power();
+  }
+
+  function power(): number {
+    const base = primary();
+    if (peek() !== "^") return base;
+    pos++;
+    return base ** unary();
+  }
+
+  function primary(): number {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = expr();
+      expect(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (/^[a-z_]/.test(name)) {
+      if (peek() !== "(") {
+        if (name in CONSTANTS) return CONSTANTS[name];
+        throw new Error(`Unknown name "${token}"`);
+      }
+      const fn = FUNCTIONS[name];
+      if (!fn) throw new Error(`Unknown function "${token}"`);
+      pos++;
+      const args = [expr()];
+      while (peek() === ",") {
+        pos++;
+        args.push(expr());
+      }
+      expect(")");
+      return fn(...args);
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  }
+
+  const value = expr();
+  if (pos < tokens.length) throw new Error(`Unexpected ${describe(peek())}`);
+  if (!Number.isFinite(value)) throw new Error("The result is not finite");
+  return value;
+}
+
+function describe(token: string | undefined): string {
+  return token === undefined ? "end of expression" : `"${token}"`;
+}
@@ -0,0 +1,201 @@
+/**
+ * The function-calling loop. Tools are described in the system prompt, and
+ * the model calls one by writing
+ *
+ *   <tool_call>{"name": "calculator", "arguments": {"expression": "2+2"}}
+ *   </tool_call>
+ *
+ * Generation stops at the closing tag, the tool runs in the page, and its
+ * result goes back as a `<tool_response>` user turn (the chat templates of
+ * the small models have no `tool` role). This repeats until a reply has no
+ * call.
+ */
+import type {
+  ChatMessage,
+  GenerationResult,
+} from "@/lib/inference/protocol";
+import { validateJson } from "@/lib/structured/schema";
+import type { Tool } from "./tools";
+
+export const TOOL_CALL_OPEN = "<tool_call>";
+export const TOOL_CALL_CLOSE = "</tool_call>";
+
+/** Calls allowed per question before the model must answer. */
+export const MAX_TOOL_CALLS = 5;
+
+export type ToolCall = { name: string; arguments: Record<string, unknown> };
+
+/** One tool call, as shown in the trace. */
+export type ToolStep = {
+  /** Text the model wrote before the call, if any. */
+  thought: string;
+  /** The call as written, for when it doesn't parse. */
+  raw: string;
+  call: ToolCall | null;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+};
+
+export type ToolLoopResult = {
+  /** The final reply; `null` when generation failed. */
+  result: GenerationResult | null;
+  steps: ToolStep[];
+};
+
+/** System prompt section listing `tools` and the call format. */
+export function toolsPrompt(tools: Tool[]): string {
+  const list = tools
+    .map((t) =>
+      JSON.stringify({
+        name: t.name,
+        description: t.description,
+        parameters: t.parameters,
+      })
+    )
+    .join("\n");
+  return (
+    "You can call these tools:\n" +
+    `${list}\n\n` +
+    "To call one, reply with only\n" +
+    `${TOOL_CALL_OPEN}{"name": <tool name>, "arguments": <arguments object>}` +
+    `${TOOL_CALL_CLOSE}\n` +
+    "and wait for the <tool_response>. Call tools only when they help; " +
+    "otherwise, or once you have what you need, answer the user directly."
+  );
+}
+
+/** Adds the tool section to the system prompt, creating one if needed. */
+export function withTools(
+  messages: ChatMessage[],
+  tools: Tool[]
+): ChatMessage[] {
+  if (tools.length === 0) return messages;
+  const section = toolsPrompt(tools);
+  if (messages[0]?.role === "system") {
+    return [
+      { role: "system", content: `${messages[0].content}\n\n${section}` },
+      ...messages.slice(1),
+    ];
+  }
+  return [{ role: "system", content: section }, ...messages];
+}
+
+/**
+ * Finds a tool call in model output: `thought` is the text before it, and
+ * `call` is `null` when the JSON doesn't parse into `{name, arguments}`.
+ * Returns `null` when there is no call at all.
+ */
+export function parseToolCall(
+  text: string
+): { thought: string; raw: string; call: ToolCall | null } | null {
+  const start = text.indexOf(TOOL_CALL_OPEN);
+  if (start === -1) return null;
+  const thought = text.slice(0, start).trim();
+  const rest = text.slice(start + TOOL_CALL_OPEN.length);
+  const end = rest.indexOf(TOOL_CALL_CLOSE);
+  const raw = (end === -1 ? rest : rest.slice(0, end)).trim();
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed === "object" && parsed !== null) {
+      const { name, arguments: args = {} } = parsed as {
+        name?: unknown;
+        arguments?: unknown;
+      };
+      if (typeof name === "string" && typeof args === "object" && args) {
+        return {
+          thought,
+          raw,
+          call: { name, arguments: args as Record<string, unknown> },
+        };
+      }
+    }
+  } catch {
+    // reported to the model below as a malformed call
+  }
+  return { thought, raw, call: null };
+}
+
+/** Runs `call`, checking its arguments first; never throws. */
+async function execute(
+  call: ToolCall | null,
+  tools: Tool[]
+): Promise<Pick<ToolStep, "result" | "error">> {
+  if (!call) {
+    return {
+      error:
+        'Malformed tool call; expected {"name": ..., "arguments": {...}}.',
+    };
+  }
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) {
+    const names = tools.map((t) => t.name).join(", ");
+    return { error: `Unknown tool "${call.name}". Available: ${names}.` };
+  }
+  const problems = validateJson(call.arguments, tool.parameters, "arguments");
+  if (problems.length > 0) {
+    return { error: `Invalid arguments: ${problems.join("; ")}` };
+  }
+  try {
+    return { result: await tool.run(call.arguments) };
+  } catch (err: unknown) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Generates, running tool calls and feeding their results back, until the
+ * model answers without a call. `generate` must stop at `TOOL_CALL_CLOSE`.
+ * `onStep` sees the trace grow; after `MAX_TOOL_CALLS` calls the model is
+ * told to answer, and a further call ends the loop with that text as the
+ * reply.
+ */
+export async function runToolLoop(
+  messages: ChatMessage[],
+  tools: Tool[],
+  generate: (messages: ChatMessage[]) => Promise<GenerationResult | null>,
+  onStep: (steps: ToolStep[]) => void = () => {}
+): Promise<ToolLoopResult> {
+  let prompt = withTools(messages, tools);
+  const steps: ToolStep[] = [];
+
+  while (true) {
+    const result = await generate(prompt);
+    if (!result || result.cancelled) return { result, steps };
+
+    const found = parseToolCall(result.text);
+    if (!found || steps.length >= MAX_TOOL_CALLS) return { result, steps };
+
+    const started = performance.now();
+    const outcome = await execute(found.call, tools);
+    steps.push({
+      ...found,
+      ...outcome,
+      durationMs: performance.now() - started,
+    });
+    onStep([...steps]);
+
+    const response = JSON.stringify(
+      outcome.error !== undefined
+        ? { name: found.call?.name, error: outcome.error }
+        : { name: found.call?.name, result: outcome.result }
+    );
+    const limit =
+      steps.length >= MAX_TOOL_CALLS
+        ? "\nTool call limit reached; answer with what you have."
+        : "";
+    const call = `${TOOL_CALL_OPEN}${found.raw}${TOOL_CALL_CLOSE}`;
+    prompt = [
+      ...prompt,
+      {
+        role: "assistant",
+        content: found.thought ? `${found.thought}\n${call}` : call,
+      },
+      {
+        role: "user",
+        content: `<tool_response>${response}</tool_response>${limit}`,
+      },
+    ];
+  }
+}
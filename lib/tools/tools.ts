@@ -0,0 +1,109 @@
+"use client";
+
+/**
+ * Tools the chat models can call. Each declares its arguments as a JSON
+ * Schema (rendered into the system prompt and checked before `run`), and
+ * runs in the page.
+ */
+import { retrieve } from "@/lib/rag";
+import type { JsonSchema } from "@/lib/structured/schema";
+import { evaluate } from "./calculator";
+
+export type Tool<Args = Record<string, unknown>> = {
+  /** What the model writes in a call; letters, digits and `_`. */
+  name: string;
+  description: string;
+  /** An object schema for the arguments. */
+  parameters: JsonSchema;
+  /** Returns anything JSON-serializable; a throw is reported to the model. */
+  run: (args: Args) => unknown;
+};
+
+/**
+ * Pins `run`'s argument type to the schema it was declared with. Calls are
+ * validated against `parameters` first, so the cast back is safe.
+ */
+export function defineTool<Args>(tool: Tool<Args>): Tool {
+  return tool as unknown as Tool;
+}
+
+export const calculator = defineTool<{ expression: string }>({
+  name: "calculator",
+  description:
+    "Evaluates an arithmetic expression. Supports + - * / % ^, " +
+    "parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, " +
+    "ln, log (base 10), exp, min, max.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "e.g. (3 + 4) * 2^10" },
+    },
+    required: ["expression"],
+  },
+  run: ({ expression }) => ({ expression, result: evaluate(expression) }),
+});
+
+export const currentDateTime = defineTool<{ timeZone?: string }>({
+  name: "current_datetime",
+  description:
+    "Returns the current date, time and weekday in the user's time zone, " +
+    "or in the given IANA time zone.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: { type: "string", description: "e.g. Europe/Paris" },
+    },
+  },
+  run: ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const format = (options: Intl.DateTimeFormatOptions) =>
+      now.toLocaleString("en-US", { timeZone: zone, ...options });
+    return {
+      iso: now.toISOString(),
+      timeZone: zone,
+      date: format({ year: "numeric", month: "long", day: "numeric" }),
+      time: format({ hour: "2-digit", minute: "2-digit", hour12: false }),
+      weekday: format({ weekday: "long" }),
+    };
+  },
+});
+
+export const searchDocuments = defineTool<{ query: string; k?: number }>({
+  name: "search_documents",
+  description:
+    "Searches the user's uploaded documents and returns the most relevant " +
+    "passages.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      k: { type: "integer", minimum: 1, maximum: 5 },
+    },
+    required: ["query"],
+  },
+  run: async ({ query, k = 3 }) => {
+    const chunks = await retrieve(query, k);
+    if (chunks.length === 0) return "No documents have been added.";
+    return chunks.map((c) => ({ document: c.docName, text: c.text }));
+  },
+});
+
+export const TOOLS: readonly Tool[] = [
+  calculator,
+  currentDateTime,
+  searchDocuments,
+];
+
+/** Chat-page setting: whether the model may call tools, and which. */
+export type ToolSettings = { enabled: boolean; names: string[] };
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  enabled: false,
+  names: TOOLS.map((t) => t.name),
+};
+
+export function enabledTools(settings: ToolSettings): Tool[] {
+  if (!settings.enabled) return [];
+  return TOOLS.filter((t) => settings.names.includes(t.name));
+}
@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
+import { MODELS } from "./lib/models";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Models used to live at top-level routes like /DistilGPT-2.
+  async redirects() {
+    return MODELS.map((m) => ({
+      source: `/${m.slug}`,
+      destination: `/models/${m.slug}`,
+      permanent: true,
+    }));
+  },
 };
 
 export default nextConfig;
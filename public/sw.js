@@ -0,0 +1,99 @@
+/**
+ * Service worker for offline use. On install it precaches what
+ * `/precache.json` lists (see `lib/pwa.ts`): each route's HTML with the
+ * `/_next/static` files it references, and the ONNX runtime WASM. Pages
+ * are network-first so a deploy shows up as soon as there is a connection;
+ * hashed assets and the runtime are cache-first. Model files are left to
+ * transformers.js, which keeps them in its own "transformers-cache".
+ */
+const SHELL_CACHE = "app-shell-v1";
+const RUNTIME_CACHE = "onnx-runtime-v1";
+const OWN_CACHES = /^(app-shell|onnx-runtime)-/;
+
+const STATIC_ASSET = /^\/_next\/static\//;
+const STATIC_REF = /\/_next\/static\/[^"'\s\\)]+/g;
+const ONNX_RUNTIME = /\/@huggingface\/transformers@[^/]+\/dist\/ort-/;
+
+/** Caches each route and every static asset its HTML points at. */
+async function precacheShell(routes) {
+  const cache = await caches.open(SHELL_CACHE);
+  const assets = new Set();
+  for (const route of routes) {
+    const res = await fetch(route, { cache: "reload" });
+    if (!res.ok) continue;
+    const html = await res.clone().text();
+    await cache.put(route, res);
+    for (const match of html.matchAll(STATIC_REF)) assets.add(match[0]);
+  }
+  await Promise.all(
+    [...assets].map((url) =>
+      cache.add(url).catch((err) => console.warn(`Not cached: ${url}`, err))
+    )
+  );
+}
+
+async function precache() {
+  const res = await fetch("/precache.json", { cache: "reload" });
+  const { shell, runtime } = await res.json();
+  const runtimeCache = await caches.open(RUNTIME_CACHE);
+  await Promise.all([precacheShell(shell), runtimeCache.addAll(runtime)]);
+}
+
+self.addEventListener("install", (event) => {
+  // A failed precache fails the install; the browser retries on next visit
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        const current = name === SHELL_CACHE || name === RUNTIME_CACHE;
+        if (OWN_CACHES.test(name) && !current) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function cacheFirst(cacheName, request) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await cache.put(request, res.clone());
+  return res;
+}
+
+/** Fresh HTML when online; offline, the cached route or else the index. */
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put(request, res.clone());
+    return res;
+  } catch (err) {
+    const options = { ignoreSearch: true, ignoreVary: true };
+    const cached =
+      (await cache.match(request, options)) ??
+      (await cache.match("/", options));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (ONNX_RUNTIME.test(url.pathname)) {
+    event.respondWith(cacheFirst(RUNTIME_CACHE, request));
+  } else if (url.origin !== self.location.origin) {
+    return;
+  } else if (STATIC_ASSET.test(url.pathname)) {
+    event.respondWith(cacheFirst(SHELL_CACHE, request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});